@@ -1,12 +1,93 @@
 import React, { useState, useMemo, useEffect, useCallback, useRef } from "react";
-import { FolderOpen, GitBranch, Eye } from "lucide-react";
+import {
+  FolderOpen,
+  GitBranch,
+  Eye,
+  FolderInput,
+  FileArchive,
+  Radio,
+  X,
+  FileCode,
+  Layers,
+  Gauge,
+  ChevronDown,
+  FolderTree,
+  GitCompare,
+  Heading,
+  ListChecks,
+  Repeat,
+  Network,
+  Columns2,
+} from "lucide-react";
 import { FileTree } from "./components/FileTree";
 import { GraphView } from "./components/GraphView";
 import { MarkdownViewer } from "./components/MarkdownViewer";
-import { buildFileTree, buildGraphData } from "./services/fileParser";
-import { scanDirectory, loadAllFileContents } from "./services/directoryScanner";
-import { AgentFile } from "./types";
-import { UI, ParseMode } from "./constants";
+import { ContextPanel } from "./components/ContextPanel";
+import { BudgetPanel } from "./components/BudgetPanel";
+import { DriftPanel } from "./components/DriftPanel";
+import { ProblemsPanel } from "./components/ProblemsPanel";
+import { CyclesPanel } from "./components/CyclesPanel";
+import { MetricsPanel } from "./components/MetricsPanel";
+import { ComparisonView } from "./components/ComparisonView";
+import { RecentWorkspacesList, RecentWorkspacesMenu } from "./components/RecentWorkspaces";
+import {
+  buildFileTree,
+  buildGraphData,
+  collectReferencedPaths,
+  extractFileReferences,
+} from "./services/fileParser";
+import { probePaths } from "./services/pathProbe";
+import { assembleContext } from "./services/contextAssembler";
+import { computeSizeMetrics, getBudgetStatus } from "./services/sizeMetrics";
+import { findDrift } from "./services/drift";
+import { findCycles } from "./services/cycles";
+import { colorByGraphMetric, computeGraphMetrics } from "./services/graphMetrics";
+import { compareEcosystems } from "./services/ecosystemComparison";
+import { getFileSeverities, runLint } from "./services/linter";
+import { colorByFrontmatterField, getFrontmatterFields } from "./services/frontmatter";
+import { ScanTask, startScan } from "./services/scanClient";
+import {
+  createFileListDirectoryHandle,
+  getDroppedDirectoryHandle,
+  isLiveDirectoryHandle,
+  isNativeDirectoryHandle,
+} from "./services/directoryAdapters";
+import { applyWorkspaceChanges, watchWorkspace } from "./services/fileWatcher";
+import { ARCHIVE_EXTENSIONS, isArchiveFile, openArchive } from "./services/archiveLoader";
+import {
+  WorkspaceRecord,
+  ensureReadPermission,
+  listRecentWorkspaces,
+  removeWorkspace,
+  saveWorkspace,
+  updateWorkspaceState,
+} from "./services/workspaceStore";
+import {
+  AgentFile,
+  BudgetThresholds,
+  DocumentSection,
+  GraphMetric,
+  LintProblem,
+  LintSeverity,
+  NodeColorEncoding,
+  NodeSizeEncoding,
+  PathKind,
+  ReferenceCycle,
+  ScanDirectoryHandle,
+  ScanProgress,
+} from "./types";
+import {
+  UI,
+  BUDGET,
+  COLORS,
+  ParseMode,
+  PROFILES,
+  DEFAULT_PARSE_MODE,
+  getProfile,
+  getMemberProfiles,
+} from "./constants";
+import { getFileProfile, isProfileFile } from "./services/profiles";
+import { getRepoConfig } from "./services/repoConfig";
 
 // Custom hook for resizable sidebar
 const useResizableSidebar = (initialWidth: number) => {
@@ -45,58 +126,456 @@ const useResizableSidebar = (initialWidth: number) => {
 };
 
 // Custom hook for browser compatibility check
+// Browsers without the File System Access API fall back to <input webkitdirectory>
 const useBrowserCompatibility = () => {
-  useEffect(() => {
-    if (!("showDirectoryPicker" in window)) {
-      console.warn(
-        "File System Access API not supported. Please use Chrome or Edge."
-      );
+  return useMemo(() => "showDirectoryPicker" in window, []);
+};
+
+// Custom hook for folder and archive drag-and-drop onto the page
+const useFolderDrop = (
+  onDrop: (dirHandle: ScanDirectoryHandle) => void,
+  onDropArchive: (archive: File) => void
+) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepth = useRef(0);
+
+  const isFileDrag = (e: React.DragEvent) => e.dataTransfer.types.includes("Files");
+
+  const handleDragEnter = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current += 1;
+    setIsDragging(true);
+  }, []);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  }, []);
+
+  const handleDragLeave = useCallback(() => {
+    dragDepth.current = Math.max(0, dragDepth.current - 1);
+    if (dragDepth.current === 0) setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback(
+    async (e: React.DragEvent) => {
+      if (!isFileDrag(e)) return;
+      e.preventDefault();
+      dragDepth.current = 0;
+      setIsDragging(false);
+
+      // Read dropped files before awaiting; the DataTransfer is cleared afterwards
+      const archive = Array.from<File>(e.dataTransfer.files).find((f) => isArchiveFile(f.name));
+      const dirHandle = await getDroppedDirectoryHandle(e.dataTransfer);
+      if (dirHandle) {
+        onDrop(dirHandle);
+      } else if (archive) {
+        onDropArchive(archive);
+      } else {
+        alert("Please drop a folder or a .zip/.tar/.tar.gz archive.");
+      }
+    },
+    [onDrop, onDropArchive]
+  );
+
+  return {
+    isDragging,
+    dropHandlers: {
+      onDragEnter: handleDragEnter,
+      onDragOver: handleDragOver,
+      onDragLeave: handleDragLeave,
+      onDrop: handleDrop,
+    },
+  };
+};
+
+// Custom hook for recently opened workspaces persisted in IndexedDB
+const useRecentWorkspaces = () => {
+  const [workspaces, setWorkspaces] = useState<WorkspaceRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setWorkspaces(await listRecentWorkspaces());
+    } catch (err) {
+      console.warn("Recent workspaces unavailable:", err);
     }
   }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { workspaces, refresh };
+};
+
+// Custom hook for watch mode: applies on-disk changes without a full rescan
+const useWorkspaceWatcher = (
+  dirHandle: ScanDirectoryHandle | null,
+  enabled: boolean,
+  files: AgentFile[],
+  setFiles: React.Dispatch<React.SetStateAction<AgentFile[]>>,
+  setSelectedFile: React.Dispatch<React.SetStateAction<AgentFile | null>>
+) => {
+  const filesRef = useRef(files);
+
+  useEffect(() => {
+    filesRef.current = files;
+  }, [files]);
+
+  useEffect(() => {
+    // Snapshots such as archives never change, so there is nothing to watch
+    if (!enabled || !dirHandle || !isLiveDirectoryHandle(dirHandle)) return;
+
+    return watchWorkspace(dirHandle, () => filesRef.current, (changes) => {
+      setFiles((prev) => applyWorkspaceChanges(prev, changes));
+
+      // Keep the selection, pointing it at the fresh content
+      setSelectedFile((prev) => {
+        if (!prev) return prev;
+        if (changes.removed.includes(prev.path)) return null;
+        return changes.modified.find((f) => f.path === prev.path) ?? prev;
+      });
+    });
+  }, [dirHandle, enabled, setFiles, setSelectedFile]);
+};
+
+// Custom hook for referenced source files and directories: checks which exist without reading them
+const useReferencedPaths = (
+  dirHandle: ScanDirectoryHandle | null,
+  enabled: boolean,
+  files: AgentFile[],
+  parseTarget: ParseMode
+): Map<string, PathKind> | undefined => {
+  const [referencedPaths, setReferencedPaths] = useState<Map<string, PathKind>>();
+
+  useEffect(() => {
+    if (!enabled || !dirHandle) {
+      setReferencedPaths(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    probePaths(dirHandle, collectReferencedPaths(files, parseTarget))
+      .then((paths) => {
+        if (!cancelled) setReferencedPaths(paths);
+      })
+      .catch((err) => console.warn("Failed to check referenced paths:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dirHandle, enabled, files, parseTarget]);
+
+  return referencedPaths;
+};
+
+// Persist native directory handles; adapter handles (entries, file lists, archives) are not storable
+const rememberWorkspace = async (
+  dirHandle: ScanDirectoryHandle
+): Promise<WorkspaceRecord | null> => {
+  if (!isNativeDirectoryHandle(dirHandle)) return null;
+
+  try {
+    return await saveWorkspace(dirHandle);
+  } catch (err) {
+    console.warn("Failed to remember workspace:", err);
+    return null;
+  }
 };
 
+// Cycles are identified by their files, so a selection survives graph rebuilds
+const getCycleKey = (cycle: ReferenceCycle): string => cycle.members.join("\n");
+
 const App: React.FC = () => {
   // State
   const [files, setFiles] = useState<AgentFile[]>([]);
   const [selectedFile, setSelectedFile] = useState<AgentFile | null>(null);
-  const [parseTarget, setParseTarget] = useState<ParseMode>("CLAUDE.md");
+  const [parseTarget, setParseTarget] = useState<ParseMode>(DEFAULT_PARSE_MODE);
   const [scanStatus, setScanStatus] = useState<string>("");
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [isPartialScan, setIsPartialScan] = useState(false);
+  const scanTaskRef = useRef<ScanTask | null>(null);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [workspaceHandle, setWorkspaceHandle] = useState<ScanDirectoryHandle | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const [showReferencedPaths, setShowReferencedPaths] = useState(false);
+  // Hierarchy edges toggled per mode; unset modes use the profile's default
+  const [inheritanceByMode, setInheritanceByMode] = useState<Partial<Record<ParseMode, boolean>>>(
+    {}
+  );
+  // Directory whose effective context replaces the file viewer (null: show the selected file)
+  const [contextDirectory, setContextDirectory] = useState<string | null>(null);
+  const [sizeEncoding, setSizeEncoding] = useState<NodeSizeEncoding>("connections");
+  const [colorEncoding, setColorEncoding] = useState<NodeColorEncoding>("fileType");
+  const [budget, setBudget] = useState<BudgetThresholds>({
+    warnTokens: BUDGET.WARN_TOKENS,
+    maxTokens: BUDGET.MAX_TOKENS,
+  });
+  const [activePanel, setActivePanel] = useState<DockPanel | null>(null);
+  // Documents shown as one node per heading, and the heading the viewer scrolls to
+  const [splitFiles, setSplitFiles] = useState<ReadonlySet<string>>(new Set());
+  const [scrollTarget, setScrollTarget] = useState<{ path: string; slug: string } | null>(null);
+  // Cycle highlighted in the graph, by its member files (null: none)
+  const [selectedCycleKey, setSelectedCycleKey] = useState<string | null>(null);
+  // CLAUDE.md and AGENTS.md graphs side by side, in place of the graph and dock
+  const [isComparing, setIsComparing] = useState(false);
 
   // Hooks
   const { width: sidebarWidth, handleMouseDown } = useResizableSidebar(UI.SIDEBAR_DEFAULT_WIDTH);
-  useBrowserCompatibility();
+  const supportsDirectoryPicker = useBrowserCompatibility();
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const { workspaces: recentWorkspaces, refresh: refreshRecentWorkspaces } = useRecentWorkspaces();
+
+  useWorkspaceWatcher(workspaceHandle, isWatching, files, setFiles, setSelectedFile);
+  const referencedPaths = useReferencedPaths(
+    workspaceHandle,
+    showReferencedPaths,
+    files,
+    parseTarget
+  );
+
+  // Remember the view state of the current workspace
+  useEffect(() => {
+    if (!workspaceId) return;
+    updateWorkspaceState(workspaceId, {
+      parseTarget,
+      selectedPath: selectedFile?.path,
+    }).catch((err) => console.warn("Failed to save workspace state:", err));
+  }, [workspaceId, parseTarget, selectedFile]);
 
   // Computed data
+  const showInheritance = inheritanceByMode[parseTarget] ?? getProfile(parseTarget).inheritanceEdges;
   const graphData = useMemo(
-    () => buildGraphData(files, parseTarget),
-    [files, parseTarget]
+    () =>
+      buildGraphData(files, parseTarget, {
+        referencedPaths,
+        inheritance: showInheritance,
+        sections: splitFiles,
+      }),
+    [files, parseTarget, referencedPaths, showInheritance, splitFiles]
+  );
+
+  const documentFiles = useMemo(
+    () => graphData.nodes.filter((node) => node.type === "document").map((node) => node.file),
+    [graphData.nodes]
+  );
+  const fileTreeData = useMemo(() => buildFileTree(documentFiles), [documentFiles]);
+
+  const sizeMetrics = useMemo(
+    () => computeSizeMetrics(files, graphData.nodes, parseTarget),
+    [files, graphData.nodes, parseTarget]
+  );
+  const graphMetrics = useMemo(() => computeGraphMetrics(graphData), [graphData]);
+  const comparison = useMemo(
+    () => (isComparing ? compareEcosystems(files) : null),
+    [isComparing, files]
+  );
+
+  // Ecosystem drift, only in combined modes
+  const isCombined = getMemberProfiles(parseTarget).length > 1;
+  const drift = useMemo(
+    () => (isCombined ? findDrift(files, parseTarget, graphData) : []),
+    [isCombined, files, parseTarget, graphData]
+  );
+
+  const cycles = useMemo(() => findCycles(files), [files]);
+  const selectedCycleIndex = cycles.findIndex((cycle) => getCycleKey(cycle) === selectedCycleKey);
+
+  const lintProblems = useMemo(
+    () => runLint(files, parseTarget, { graph: graphData }),
+    [files, parseTarget, graphData]
+  );
+  const lintSeverities = useMemo(() => getFileSeverities(lintProblems), [lintProblems]);
+
+  const dockTabs = useMemo(() => {
+    const tabs: DockTab[] = [
+      { id: "problems", label: "Problems", icon: ListChecks, badge: lintProblems.length },
+      { id: "cycles", label: "Cycles", icon: Repeat, badge: cycles.length },
+      { id: "metrics", label: "Metrics", icon: Network },
+      { id: "budget", label: "Budget", icon: Gauge },
+    ];
+    if (isCombined) tabs.push({ id: "drift", label: "Drift", icon: GitCompare, badge: drift.length });
+    return tabs;
+  }, [lintProblems.length, cycles.length, isCombined, drift.length]);
+  const visiblePanel = dockTabs.some((tab) => tab.id === activePanel) ? activePanel : null;
+
+  // The selected cycle stands out while its panel is open
+  const highlightedFiles = useMemo(
+    () =>
+      visiblePanel === "cycles" && selectedCycleIndex >= 0
+        ? new Set(cycles[selectedCycleIndex].members)
+        : undefined,
+    [visiblePanel, cycles, selectedCycleIndex]
+  );
+
+  // Node sizes for the selected encoding (undefined: sized by connection count)
+  const nodeSizes = useMemo(() => {
+    if (sizeEncoding === "connections") return undefined;
+    if (sizeEncoding === "ownTokens" || sizeEncoding === "totalTokens") {
+      return new Map(
+        Array.from(sizeMetrics, ([id, size]) => [
+          id,
+          sizeEncoding === "ownTokens" ? size.tokens : size.totalTokens,
+        ])
+      );
+    }
+    return new Map(Array.from(graphMetrics, ([id, metrics]) => [id, metrics[sizeEncoding]]));
+  }, [sizeEncoding, sizeMetrics, graphMetrics]);
+
+  // Frontmatter fields of the documents in the graph, offered as color encodings
+  const frontmatterFields = useMemo(() => getFrontmatterFields(documentFiles), [documentFiles]);
+  const frontmatterField = colorEncoding.startsWith("frontmatter:")
+    ? colorEncoding.slice("frontmatter:".length)
+    : null;
+  // A field no file in this mode has falls back to file type coloring
+  const activeColorEncoding: NodeColorEncoding =
+    frontmatterField !== null && !frontmatterFields.includes(frontmatterField)
+      ? "fileType"
+      : colorEncoding;
+
+  const frontmatterColors = useMemo(
+    () => (frontmatterField === null ? null : colorByFrontmatterField(documentFiles, frontmatterField)),
+    [documentFiles, frontmatterField]
   );
 
-  const fileTreeData = useMemo(() => {
-    const indexedFiles = graphData.nodes.map((node) => node.file);
-    return buildFileTree(indexedFiles);
-  }, [graphData.nodes]);
+  const metricColors = useMemo(
+    () =>
+      isGraphMetric(activeColorEncoding) ? colorByGraphMetric(graphMetrics, activeColorEncoding) : null,
+    [activeColorEncoding, graphMetrics]
+  );
+
+  // Node colors for the selected encoding (undefined: colored by file type)
+  const nodeColors = useMemo(() => {
+    if (activeColorEncoding === "fileType") return undefined;
+    if (metricColors) return metricColors.colors;
+    if (activeColorEncoding !== "budget") return frontmatterColors?.colors;
+    return new Map(
+      Array.from(sizeMetrics, ([id, size]) => [
+        id,
+        COLORS.budget[getBudgetStatus(size.totalTokens, budget)],
+      ])
+    );
+  }, [activeColorEncoding, metricColors, frontmatterColors, sizeMetrics, budget]);
+
+  const colorLegend = useMemo(() => {
+    if (activeColorEncoding === "fileType") return undefined;
+    if (metricColors) return metricColors.legend;
+    if (activeColorEncoding !== "budget") return frontmatterColors?.legend;
+    return [
+      { label: `≤ ${budget.warnTokens.toLocaleString()} tokens`, color: COLORS.budget.ok },
+      { label: `≤ ${budget.maxTokens.toLocaleString()} tokens`, color: COLORS.budget.warn },
+      { label: `> ${budget.maxTokens.toLocaleString()} tokens`, color: COLORS.budget.over },
+    ];
+  }, [activeColorEncoding, metricColors, frontmatterColors, budget]);
+
+  const effectiveContext = useMemo(
+    () => (contextDirectory === null ? null : assembleContext(files, parseTarget, contextDirectory)),
+    [files, parseTarget, contextDirectory]
+  );
+
+  // Every directory holding scanned files, with the directories enclosing them
+  const contextDirectories = useMemo(() => {
+    const directories = new Set<string>([""]);
+    for (const file of files) {
+      const parts = file.directory ? file.directory.split("/") : [];
+      parts.forEach((_, i) => directories.add(parts.slice(0, i + 1).join("/")));
+    }
+    return Array.from(directories).sort();
+  }, [files]);
+
+  const selectedReferences = useMemo(
+    () => (selectedFile ? extractFileReferences(selectedFile, getRepoConfig(files)) : []),
+    [selectedFile, files]
+  );
 
   // Handlers
-  const handleSelectFolder = async () => {
+  const openDirectory = useCallback(async (dirHandle: ScanDirectoryHandle) => {
     try {
-      // @ts-expect-error - File System Access API types may not be available
-      const dirHandle = await window.showDirectoryPicker();
+      setWorkspaceId(null);
+      setWorkspaceHandle(null);
+      const workspace = await rememberWorkspace(dirHandle);
+      refreshRecentWorkspaces();
 
       setScanStatus("Scanning...");
-      const foundFiles = await scanDirectory(dirHandle);
+      setScanProgress(null);
+      const scanTask = startScan(dirHandle, setScanProgress);
+      scanTaskRef.current = scanTask;
+      const { files: filesWithContent, cancelled } = await scanTask.result;
+      scanTaskRef.current = null;
       setScanStatus("");
+      setScanProgress(null);
 
-      if (foundFiles.length > 0) {
-        setFiles(foundFiles);
-        setSelectedFile(null);
-        const filesWithContent = await loadAllFileContents(foundFiles);
+      if (filesWithContent.length > 0) {
         setFiles(filesWithContent);
-      } else {
-        alert("No AGENTS.md or CLAUDE.md files found in the selected folder.");
+        setSelectedFile(null);
+        setContextDirectory(null);
+        setIsPartialScan(cancelled);
+        setWorkspaceHandle(dirHandle);
+        // Split files and the highlighted cycle name paths of the previous workspace
+        setSplitFiles(new Set());
+        setSelectedCycleKey(null);
+        setIsWatching((watching) => watching && isLiveDirectoryHandle(dirHandle));
+
+        // Use the remembered parse mode, else the repository's configured default
+        const initialMode =
+          workspace?.parseTarget ?? getRepoConfig(filesWithContent).defaultMode;
+        if (initialMode) setParseTarget(initialMode);
+
+        // Restore the view state remembered for this workspace
+        if (workspace) {
+          setSelectedFile(
+            filesWithContent.find((f) => f.path === workspace.selectedPath) ?? null
+          );
+          setWorkspaceId(workspace.id);
+        }
+      } else if (!cancelled) {
+        alert("No instruction or markdown files found in the selected folder.");
       }
     } catch (err: unknown) {
+      scanTaskRef.current = null;
       setScanStatus("");
+      setScanProgress(null);
+      console.error("Failed to scan folder:", err);
+      alert("Failed to scan folder. Please try again.");
+    }
+  }, [refreshRecentWorkspaces]);
+
+  const handleOpenRecent = async (workspace: WorkspaceRecord) => {
+    try {
+      if (!(await ensureReadPermission(workspace.handle))) {
+        alert(`Permission to read "${workspace.name}" was not granted.`);
+        return;
+      }
+      await openDirectory(workspace.handle);
+    } catch (err: unknown) {
+      console.error("Failed to reopen workspace:", err);
+      alert(`Failed to reopen "${workspace.name}". It may have been moved or deleted.`);
+    }
+  };
+
+  const handleRemoveRecent = async (workspace: WorkspaceRecord) => {
+    try {
+      await removeWorkspace(workspace.id);
+    } catch (err) {
+      console.warn("Failed to forget workspace:", err);
+    }
+    refreshRecentWorkspaces();
+  };
+
+  const handleSelectFolder = async () => {
+    // Fall back to the webkitdirectory input where the File System Access API is missing
+    if (!supportsDirectoryPicker) {
+      folderInputRef.current?.click();
+      return;
+    }
+
+    try {
+      const dirHandle = await window.showDirectoryPicker();
+      await openDirectory(dirHandle);
+    } catch (err: unknown) {
       const error = err as { name?: string };
       if (error.name !== "AbortError") {
         console.error("Failed to access folder:", err);
@@ -105,30 +584,139 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileSelect = (file: AgentFile) => {
+  const handleFolderInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const inputFiles = e.target.files;
+    if (inputFiles && inputFiles.length > 0) {
+      openDirectory(createFileListDirectoryHandle(inputFiles));
+    }
+    // Reset so selecting the same folder again still fires change
+    e.target.value = "";
+  };
+
+  const openArchiveFile = useCallback(
+    async (archive: File) => {
+      try {
+        setScanStatus("Reading archive...");
+        const dirHandle = await openArchive(archive);
+        await openDirectory(dirHandle);
+      } catch (err: unknown) {
+        setScanStatus("");
+        console.error("Failed to read archive:", err);
+        alert(`Failed to read archive: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    },
+    [openDirectory]
+  );
+
+  const handleArchiveInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = e.target.files?.[0];
+    if (archive) {
+      openArchiveFile(archive);
+    }
+    e.target.value = "";
+  };
+
+  const { isDragging, dropHandlers } = useFolderDrop(openDirectory, openArchiveFile);
+
+  const showFile = useCallback((file: AgentFile) => {
+    setContextDirectory(null);
     setSelectedFile(file);
+    setScrollTarget(null);
+  }, []);
+
+  const showSection = useCallback(
+    (file: AgentFile, section: DocumentSection) => {
+      showFile(file);
+      setScrollTarget({ path: file.path, slug: section.slug });
+    },
+    [showFile]
+  );
 
-    // Auto-switch parse target based on file name
-    const fileName = file.name.toUpperCase();
-    if (fileName === "AGENTS.MD") {
-      setParseTarget("AGENTS.md");
-    } else if (fileName === "CLAUDE.MD") {
-      setParseTarget("CLAUDE.md");
+  const toggleSplitFile = useCallback((path: string) => {
+    setSplitFiles((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  }, []);
+
+  const handleFileSelect = (file: AgentFile) => {
+    showFile(file);
+
+    // Auto-switch parse target to the profile the file belongs to, unless the current mode shows it
+    const profile = getFileProfile(file.path);
+    if (profile && !isProfileFile(file.path, getProfile(parseTarget))) {
+      setParseTarget(profile.id as ParseMode);
     }
   };
 
+  const handleProblemSelect = (problem: LintProblem) => {
+    const file = files.find((f) => f.path === problem.file);
+    if (file) handleFileSelect(file);
+  };
+
   const hasFiles = files.length > 0;
+  const canWatch = workspaceHandle !== null && isLiveDirectoryHandle(workspaceHandle);
   const isScanning = Boolean(scanStatus);
 
   return (
-    <div className="flex flex-col h-screen bg-gray-900 text-gray-100 font-sans">
+    <div
+      className="flex flex-col h-screen bg-gray-900 text-gray-100 font-sans relative"
+      {...dropHandlers}
+    >
+      {/* Hidden folder input for browsers without showDirectoryPicker */}
+      <input
+        ref={(el) => {
+          folderInputRef.current = el;
+          el?.setAttribute("webkitdirectory", "");
+        }}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleFolderInputChange}
+      />
+      <input
+        ref={archiveInputRef}
+        type="file"
+        accept={ARCHIVE_EXTENSIONS.join(",")}
+        className="hidden"
+        onChange={handleArchiveInputChange}
+      />
+
+      {/* Drop overlay */}
+      {isDragging && <DropOverlay />}
+
       {/* Header */}
       <Header
         hasFiles={hasFiles}
+        isPartialScan={isPartialScan}
         parseTarget={parseTarget}
         onParseModeChange={setParseTarget}
+        showReferencedPaths={showReferencedPaths}
+        onToggleReferencedPaths={() => setShowReferencedPaths(!showReferencedPaths)}
+        showInheritance={showInheritance}
+        onToggleInheritance={() =>
+          setInheritanceByMode((prev) => ({ ...prev, [parseTarget]: !showInheritance }))
+        }
+        showSections={splitFiles.size > 0}
+        onToggleSections={() =>
+          setSplitFiles(
+            splitFiles.size > 0 ? new Set() : new Set(documentFiles.map((file) => file.path))
+          )
+        }
+        isComparing={isComparing}
+        onToggleCompare={() => setIsComparing(!isComparing)}
         scanStatus={scanStatus}
+        scanProgress={scanProgress}
+        onCancelScan={() => scanTaskRef.current?.cancel()}
         onSelectFolder={handleSelectFolder}
+        onOpenArchive={() => archiveInputRef.current?.click()}
+        recentWorkspaces={recentWorkspaces}
+        onOpenRecent={handleOpenRecent}
+        onRemoveRecent={handleRemoveRecent}
+        canWatch={canWatch}
+        isWatching={isWatching}
+        onToggleWatch={() => setIsWatching(!isWatching)}
         isScanning={isScanning}
       />
 
@@ -139,27 +727,115 @@ const App: React.FC = () => {
           <div className="p-3 border-b border-gray-800 flex items-center text-gray-400 text-xs uppercase font-semibold tracking-wider bg-gray-900/50">
             <FolderOpen size={14} className="mr-2" />
             Explorer
+            {hasFiles && (
+              <button
+                onClick={() => setContextDirectory("")}
+                title="Show the instructions loaded at the repository root"
+                className="ml-auto p-0.5 text-gray-500 hover:text-gray-200 cursor-pointer"
+              >
+                <Layers size={14} />
+              </button>
+            )}
           </div>
           <div className="flex-1 overflow-hidden">
             <FileTree
               nodes={fileTreeData}
               onSelect={handleFileSelect}
               selectedPath={selectedFile?.path}
+              onSelectDirectory={setContextDirectory}
+              badges={lintSeverities}
             />
           </div>
         </aside>
 
         {/* Center: Graph Visualization */}
         <main className="flex-1 bg-gray-900 relative flex flex-col">
-          {hasFiles ? (
-            <GraphPanel
-              graphData={graphData}
-              parseTarget={parseTarget}
-              selectedFile={selectedFile}
-              onNodeClick={setSelectedFile}
+          {hasFiles && comparison ? (
+            <ComparisonView
+              comparison={comparison}
+              leftMode="CLAUDE.md"
+              rightMode="AGENTS.md"
+              onFileSelect={showFile}
+              selectedPath={selectedFile?.path}
             />
+          ) : hasFiles ? (
+            <>
+              <GraphPanel
+                graphData={graphData}
+                parseTarget={parseTarget}
+                selectedFile={selectedFile}
+                onNodeClick={showFile}
+                onSectionClick={showSection}
+                onNodeToggle={toggleSplitFile}
+                sizeEncoding={sizeEncoding}
+                onSizeEncodingChange={setSizeEncoding}
+                colorEncoding={activeColorEncoding}
+                onColorEncodingChange={setColorEncoding}
+                frontmatterFields={frontmatterFields}
+                nodeSizes={nodeSizes}
+                nodeColors={nodeColors}
+                colorLegend={colorLegend}
+                nodeBadges={lintSeverities}
+                highlightedFiles={highlightedFiles}
+              />
+              <PanelDock
+                tabs={dockTabs}
+                activePanel={visiblePanel}
+                onChange={setActivePanel}
+              >
+                {visiblePanel === "problems" && (
+                  <ProblemsPanel
+                    problems={lintProblems}
+                    onProblemSelect={handleProblemSelect}
+                    selectedPath={selectedFile?.path}
+                  />
+                )}
+                {visiblePanel === "cycles" && (
+                  <CyclesPanel
+                    cycles={cycles}
+                    files={files}
+                    selectedIndex={selectedCycleIndex >= 0 ? selectedCycleIndex : null}
+                    onCycleSelect={(index) =>
+                      setSelectedCycleKey(index === null ? null : getCycleKey(cycles[index]))
+                    }
+                    onFileSelect={handleFileSelect}
+                    selectedPath={selectedFile?.path}
+                  />
+                )}
+                {visiblePanel === "metrics" && (
+                  <MetricsPanel
+                    nodes={graphData.nodes}
+                    metrics={graphMetrics}
+                    onFileSelect={handleFileSelect}
+                    selectedPath={selectedFile?.path}
+                  />
+                )}
+                {visiblePanel === "budget" && (
+                  <BudgetPanel
+                    nodes={graphData.nodes}
+                    metrics={sizeMetrics}
+                    thresholds={budget}
+                    onThresholdsChange={setBudget}
+                    onFileSelect={handleFileSelect}
+                    selectedPath={selectedFile?.path}
+                  />
+                )}
+                {visiblePanel === "drift" && (
+                  <DriftPanel
+                    drift={drift}
+                    onFileSelect={handleFileSelect}
+                    selectedPath={selectedFile?.path}
+                  />
+                )}
+              </PanelDock>
+            </>
           ) : (
-            <EmptyState />
+            <EmptyState
+              recentWorkspaces={recentWorkspaces}
+              onOpenRecent={handleOpenRecent}
+              onRemoveRecent={handleRemoveRecent}
+              isScanning={isScanning}
+            />
           )}
         </main>
 
@@ -174,7 +850,22 @@ const App: React.FC = () => {
           style={{ width: sidebarWidth }}
           className="bg-gray-900 border-l border-gray-800 flex flex-col shadow-xl z-10 shrink-0"
         >
-          <MarkdownViewer file={selectedFile} />
+          {effectiveContext ? (
+            <ContextPanel
+              context={effectiveContext}
+              parseTarget={parseTarget}
+              directories={contextDirectories}
+              onDirectoryChange={setContextDirectory}
+              onFileSelect={handleFileSelect}
+              onClose={() => setContextDirectory(null)}
+            />
+          ) : (
+            <MarkdownViewer
+              file={selectedFile}
+              references={selectedReferences}
+              scrollTarget={scrollTarget?.path === selectedFile?.path ? scrollTarget : null}
+            />
+          )}
         </aside>
       </div>
 
@@ -184,22 +875,67 @@ const App: React.FC = () => {
   );
 };
 
+// Format a byte count for display (e.g., "1.2 MB")
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 // Header component
 interface HeaderProps {
   hasFiles: boolean;
+  isPartialScan: boolean;
   parseTarget: ParseMode;
   onParseModeChange: (mode: ParseMode) => void;
+  showReferencedPaths: boolean;
+  onToggleReferencedPaths: () => void;
+  showInheritance: boolean;
+  onToggleInheritance: () => void;
+  /** Whether any document is split into section nodes */
+  showSections: boolean;
+  onToggleSections: () => void;
+  /** Whether the CLAUDE.md and AGENTS.md graphs are shown side by side */
+  isComparing: boolean;
+  onToggleCompare: () => void;
   scanStatus: string;
+  scanProgress: ScanProgress | null;
+  onCancelScan: () => void;
   onSelectFolder: () => void;
+  onOpenArchive: () => void;
+  recentWorkspaces: WorkspaceRecord[];
+  onOpenRecent: (workspace: WorkspaceRecord) => void;
+  onRemoveRecent: (workspace: WorkspaceRecord) => void;
+  canWatch: boolean;
+  isWatching: boolean;
+  onToggleWatch: () => void;
   isScanning: boolean;
 }
 
 const Header: React.FC<HeaderProps> = ({
   hasFiles,
+  isPartialScan,
   parseTarget,
   onParseModeChange,
+  showReferencedPaths,
+  onToggleReferencedPaths,
+  showInheritance,
+  onToggleInheritance,
+  showSections,
+  onToggleSections,
+  isComparing,
+  onToggleCompare,
   scanStatus,
+  scanProgress,
+  onCancelScan,
   onSelectFolder,
+  onOpenArchive,
+  recentWorkspaces,
+  onOpenRecent,
+  onRemoveRecent,
+  canWatch,
+  isWatching,
+  onToggleWatch,
   isScanning,
 }) => (
   <header className="h-14 border-b border-gray-800 bg-gray-950 flex items-center justify-between px-4 shadow-md z-20">
@@ -209,7 +945,7 @@ const Header: React.FC<HeaderProps> = ({
         <h1 className="text-lg font-bold tracking-wide">
           <span className="text-blue-500">Agent</span>Link{" "}
           <span className="text-gray-500 text-xs font-normal ml-2 border border-gray-700 px-1.5 py-0.5 rounded">
-            {hasFiles ? "LOCAL REPO" : "NO FOLDER"}
+            {!hasFiles ? "NO FOLDER" : isPartialScan ? "PARTIAL SCAN" : "LOCAL REPO"}
           </span>
         </h1>
       </div>
@@ -224,10 +960,93 @@ const Header: React.FC<HeaderProps> = ({
           onChange={(e) => onParseModeChange(e.target.value as ParseMode)}
           className="bg-transparent text-sm font-medium text-blue-400 focus:outline-none cursor-pointer py-0.5"
         >
-          <option value="CLAUDE.md">Parse CLAUDE.md</option>
-          <option value="AGENTS.md">Parse AGENTS.md</option>
+          {PROFILES.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              Parse {profile.label}
+            </option>
+          ))}
         </select>
       </div>
+
+      {/* Referenced source files and directories */}
+      {hasFiles && (
+        <button
+          onClick={onToggleReferencedPaths}
+          title={
+            showReferencedPaths
+              ? "Hide referenced source files and directories"
+              : "Show referenced source files and directories, and flag missing paths"
+          }
+          className={`flex items-center space-x-2 px-3 py-1.5 border rounded text-sm font-medium cursor-pointer transition-colors ${
+            showReferencedPaths
+              ? "bg-teal-900/40 border-teal-700 text-teal-300 hover:bg-teal-900/60"
+              : "bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700"
+          }`}
+        >
+          <FileCode size={14} />
+          <span>Paths</span>
+        </button>
+      )}
+
+      {/* Implicit directory-hierarchy edges, for profiles that read enclosing directories */}
+      {hasFiles && getProfile(parseTarget).contextScope !== "root" && (
+        <button
+          onClick={onToggleInheritance}
+          title={
+            showInheritance
+              ? "Hide implicit links between nested instruction files"
+              : "Link nested instruction files to those of enclosing directories"
+          }
+          className={`flex items-center space-x-2 px-3 py-1.5 border rounded text-sm font-medium cursor-pointer transition-colors ${
+            showInheritance
+              ? "bg-purple-900/40 border-purple-700 text-purple-300 hover:bg-purple-900/60"
+              : "bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700"
+          }`}
+        >
+          <FolderTree size={14} />
+          <span>Hierarchy</span>
+        </button>
+      )}
+
+      {/* One node per heading; double-clicking a node splits or collapses a single file */}
+      {hasFiles && (
+        <button
+          onClick={onToggleSections}
+          title={
+            showSections
+              ? "Collapse every file back into a single node"
+              : "Split every file into one node per heading"
+          }
+          className={`flex items-center space-x-2 px-3 py-1.5 border rounded text-sm font-medium cursor-pointer transition-colors ${
+            showSections
+              ? "bg-sky-900/40 border-sky-700 text-sky-300 hover:bg-sky-900/60"
+              : "bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700"
+          }`}
+        >
+          <Heading size={14} />
+          <span>Sections</span>
+        </button>
+      )}
+
+      {/* CLAUDE.md and AGENTS.md graphs aligned by directory, with what each one lacks */}
+      {hasFiles && (
+        <button
+          onClick={onToggleCompare}
+          title={
+            isComparing
+              ? "Back to the graph of the selected mode"
+              : "Compare the CLAUDE.md and AGENTS.md graphs side by side"
+          }
+          className={`flex items-center space-x-2 px-3 py-1.5 border rounded text-sm font-medium cursor-pointer transition-colors ${
+            isComparing
+              ? "bg-amber-900/40 border-amber-700 text-amber-300 hover:bg-amber-900/60"
+              : "bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700"
+          }`}
+        >
+          <Columns2 size={14} />
+          <span>Compare</span>
+        </button>
+      )}
     </div>
 
     <div className="flex items-center space-x-3">
@@ -235,8 +1054,53 @@ const Header: React.FC<HeaderProps> = ({
         <div className="flex items-center space-x-2 text-xs text-gray-400">
           <div className="w-3 h-3 border-2 border-gray-600 border-t-blue-500 rounded-full animate-spin" />
           <span>{scanStatus}</span>
+          {scanProgress && (
+            <>
+              <span className="text-gray-600">|</span>
+              <span className="font-mono">
+                {scanProgress.directoriesVisited} dirs · {scanProgress.markdownFilesFound} md ·{" "}
+                {formatBytes(scanProgress.bytesRead)}
+              </span>
+              <button
+                onClick={onCancelScan}
+                title="Stop scanning and keep the files found so far"
+                className="flex items-center space-x-1 px-2 py-0.5 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300 cursor-pointer transition-colors"
+              >
+                <X size={12} />
+                <span>Cancel</span>
+              </button>
+            </>
+          )}
         </div>
       )}
+      {canWatch && (
+        <button
+          onClick={onToggleWatch}
+          title={isWatching ? "Stop watching for changes" : "Update the graph when files change on disk"}
+          className={`flex items-center space-x-2 px-3 py-1.5 border rounded text-sm font-medium cursor-pointer transition-colors ${
+            isWatching
+              ? "bg-emerald-900/40 border-emerald-700 text-emerald-300 hover:bg-emerald-900/60"
+              : "bg-gray-800 border-gray-700 text-gray-200 hover:bg-gray-700"
+          }`}
+        >
+          <Radio size={14} className={isWatching ? "animate-pulse" : ""} />
+          <span>{isWatching ? "Watching" : "Watch"}</span>
+        </button>
+      )}
+      <RecentWorkspacesMenu
+        workspaces={recentWorkspaces}
+        onOpen={onOpenRecent}
+        onRemove={onRemoveRecent}
+        disabled={isScanning}
+      />
+      <button
+        onClick={onOpenArchive}
+        disabled={isScanning}
+        className="flex items-center space-x-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-gray-200 border border-gray-700 rounded text-sm font-medium cursor-pointer transition-colors"
+      >
+        <FileArchive size={14} />
+        <span>Open Archive</span>
+      </button>
       <button
         onClick={onSelectFolder}
         disabled={isScanning}
@@ -255,30 +1119,122 @@ interface GraphPanelProps {
   parseTarget: ParseMode;
   selectedFile: AgentFile | null;
   onNodeClick: (file: AgentFile) => void;
+  onSectionClick: (file: AgentFile, section: DocumentSection) => void;
+  onNodeToggle: (path: string) => void;
+  sizeEncoding: NodeSizeEncoding;
+  onSizeEncodingChange: (encoding: NodeSizeEncoding) => void;
+  colorEncoding: NodeColorEncoding;
+  onColorEncodingChange: (encoding: NodeColorEncoding) => void;
+  /** Frontmatter keys nodes can be colored by */
+  frontmatterFields: string[];
+  nodeSizes?: Map<string, number>;
+  nodeColors?: Map<string, string>;
+  colorLegend?: { label: string; color: string }[];
+  nodeBadges?: Map<string, LintSeverity>;
+  highlightedFiles?: ReadonlySet<string>;
 }
 
+// Node encodings offered in the graph toolbar
+const SIZE_ENCODINGS: { id: NodeSizeEncoding; label: string }[] = [
+  { id: "connections", label: "Connections" },
+  { id: "ownTokens", label: "Own tokens" },
+  { id: "totalTokens", label: "Total tokens" },
+  { id: "inDegree", label: "In-degree" },
+  { id: "outDegree", label: "Out-degree" },
+  { id: "fanOut", label: "Fan-out" },
+  { id: "betweenness", label: "Betweenness" },
+];
+
+const COLOR_ENCODINGS: { id: NodeColorEncoding; label: string }[] = [
+  { id: "fileType", label: "File type" },
+  { id: "budget", label: "Token budget" },
+  { id: "inDegree", label: "In-degree" },
+  { id: "outDegree", label: "Out-degree" },
+  { id: "depth", label: "Depth from root" },
+  { id: "fanOut", label: "Fan-out" },
+  { id: "betweenness", label: "Betweenness" },
+];
+
+const GRAPH_METRICS: readonly GraphMetric[] = ["inDegree", "outDegree", "depth", "betweenness", "fanOut"];
+
+const isGraphMetric = (encoding: string): encoding is GraphMetric =>
+  GRAPH_METRICS.includes(encoding as GraphMetric);
+
 const GraphPanel: React.FC<GraphPanelProps> = ({
   graphData,
   parseTarget,
   selectedFile,
   onNodeClick,
+  onSectionClick,
+  onNodeToggle,
+  sizeEncoding,
+  onSizeEncodingChange,
+  colorEncoding,
+  onColorEncodingChange,
+  frontmatterFields,
+  nodeSizes,
+  nodeColors,
+  colorLegend,
+  nodeBadges,
+  highlightedFiles,
 }) => {
-  const indicatorColor = parseTarget === "CLAUDE.md" ? "bg-pink-500" : "bg-purple-500";
-  const textColor = parseTarget === "CLAUDE.md" ? "text-pink-400" : "text-purple-400";
+  const profile = getProfile(parseTarget);
 
   return (
     <>
       <div className="absolute top-3 left-3 z-10 pointer-events-none">
         <div className="flex items-center space-x-2 bg-gray-900/90 backdrop-blur px-3 py-1.5 rounded-full border border-gray-800 shadow-lg">
-          <div className={`w-2 h-2 rounded-full animate-pulse ${indicatorColor}`} />
+          <div
+            className="w-2 h-2 rounded-full animate-pulse"
+            style={{ backgroundColor: profile.colors.fill }}
+          />
           <span className="text-xs text-gray-300 font-medium">
-            Parsing <span className={textColor}>{parseTarget}</span>
+            Parsing <span style={{ color: profile.colors.text }}>{profile.label}</span>
           </span>
           <span className="text-gray-600">|</span>
           <span className="text-xs text-gray-500">
             {graphData.nodes.length} Nodes, {graphData.links.length} Links
           </span>
         </div>
+        <div className="mt-2 inline-flex items-center space-x-3 bg-gray-900/90 backdrop-blur px-3 py-1 rounded-full border border-gray-800 shadow-lg pointer-events-auto text-xs text-gray-500">
+          <label className="flex items-center space-x-1">
+            <span>Size</span>
+            <select
+              value={sizeEncoding}
+              onChange={(e) => onSizeEncodingChange(e.target.value as NodeSizeEncoding)}
+              className="bg-transparent text-gray-300 focus:outline-none cursor-pointer"
+            >
+              {SIZE_ENCODINGS.map((encoding) => (
+                <option key={encoding.id} value={encoding.id}>
+                  {encoding.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-1">
+            <span>Color</span>
+            <select
+              value={colorEncoding}
+              onChange={(e) => onColorEncodingChange(e.target.value as NodeColorEncoding)}
+              className="bg-transparent text-gray-300 focus:outline-none cursor-pointer"
+            >
+              {COLOR_ENCODINGS.map((encoding) => (
+                <option key={encoding.id} value={encoding.id}>
+                  {encoding.label}
+                </option>
+              ))}
+              {frontmatterFields.length > 0 && (
+                <optgroup label="Frontmatter">
+                  {frontmatterFields.map((field) => (
+                    <option key={field} value={`frontmatter:${field}`}>
+                      {field}
+                    </option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+          </label>
+        </div>
       </div>
 
       <div className="flex-1 overflow-hidden bg-[radial-gradient(ellipse_at_center,var(--tw-gradient-stops))] from-gray-800/20 via-gray-900 to-gray-900">
@@ -286,26 +1242,117 @@ const GraphPanel: React.FC<GraphPanelProps> = ({
           nodes={graphData.nodes as any}
           links={graphData.links as any}
           onNodeClick={onNodeClick}
+          onSectionClick={onSectionClick}
+          onNodeToggle={onNodeToggle}
           selectedPath={selectedFile?.path}
           activeMode={parseTarget}
+          nodeSizes={nodeSizes}
+          nodeColors={nodeColors}
+          colorLegend={colorLegend}
+          nodeBadges={nodeBadges}
+          highlightedFiles={highlightedFiles}
         />
       </div>
     </>
   );
 };
 
+// Analysis panels docked below the graph
+type DockPanel = "problems" | "cycles" | "metrics" | "budget" | "drift";
+
+interface DockTab {
+  id: DockPanel;
+  label: string;
+  icon: typeof Gauge;
+  /** Count shown next to the label */
+  badge?: number;
+}
+
+interface PanelDockProps {
+  tabs: DockTab[];
+  activePanel: DockPanel | null;
+  onChange: (panel: DockPanel | null) => void;
+  children: React.ReactNode;
+}
+
+const PanelDock: React.FC<PanelDockProps> = ({ tabs, activePanel, onChange, children }) => (
+  <div className="border-t border-gray-800 bg-gray-950 shrink-0 flex flex-col">
+    <div className="flex items-center px-2 h-8">
+      {tabs.map(({ id, label, icon: Icon, badge }) => (
+        <button
+          key={id}
+          onClick={() => onChange(activePanel === id ? null : id)}
+          className={`flex items-center space-x-1.5 px-3 h-full text-xs font-medium cursor-pointer transition-colors border-b-2 ${
+            activePanel === id
+              ? "border-blue-500 text-gray-100"
+              : "border-transparent text-gray-500 hover:text-gray-300"
+          }`}
+        >
+          <Icon size={12} />
+          <span>{label}</span>
+          {badge !== undefined && badge > 0 && (
+            <span className="px-1.5 rounded-full bg-amber-900/50 text-amber-300 text-[10px]">
+              {badge}
+            </span>
+          )}
+        </button>
+      ))}
+      {activePanel && (
+        <button
+          onClick={() => onChange(null)}
+          title="Hide panel"
+          className="ml-auto p-1 text-gray-500 hover:text-gray-300 cursor-pointer"
+        >
+          <ChevronDown size={14} />
+        </button>
+      )}
+    </div>
+    {activePanel && <div className="h-64 border-t border-gray-800">{children}</div>}
+  </div>
+);
+
+// Drag-and-drop overlay
+const DropOverlay: React.FC = () => (
+  <div className="absolute inset-0 z-50 flex items-center justify-center bg-gray-950/80 backdrop-blur-sm border-2 border-dashed border-blue-500 pointer-events-none">
+    <div className="text-center space-y-3">
+      <FolderInput className="mx-auto text-blue-400" size={48} />
+      <p className="text-lg font-semibold text-blue-300">Drop a folder or archive to scan it</p>
+    </div>
+  </div>
+);
+
 // Empty state component
-const EmptyState: React.FC = () => (
+interface EmptyStateProps {
+  recentWorkspaces: WorkspaceRecord[];
+  onOpenRecent: (workspace: WorkspaceRecord) => void;
+  onRemoveRecent: (workspace: WorkspaceRecord) => void;
+  isScanning: boolean;
+}
+
+const EmptyState: React.FC<EmptyStateProps> = ({
+  recentWorkspaces,
+  onOpenRecent,
+  onRemoveRecent,
+  isScanning,
+}) => (
   <div className="flex-1 flex items-center justify-center bg-[radial-gradient(ellipse_at_center,var(--tw-gradient-stops))] from-gray-800/20 via-gray-900 to-gray-900">
     <div className="text-center space-y-4 max-w-md px-6">
       <FolderOpen className="mx-auto text-gray-600" size={64} />
       <h2 className="text-xl font-semibold text-gray-300">No Folder Selected</h2>
       <p className="text-gray-500 text-sm leading-relaxed">
         Click <span className="text-blue-400 font-medium">"Select Local Folder"</span>{" "}
-        above to choose a folder containing{" "}
-        <span className="font-mono text-blue-400">AGENTS.md</span> or{" "}
-        <span className="font-mono text-blue-400">CLAUDE.md</span> files.
+        above, open a .zip/.tar archive, or drag either here to load a repository containing{" "}
+        agent instruction files such as{" "}
+        <span className="font-mono text-blue-400">CLAUDE.md</span>,{" "}
+        <span className="font-mono text-blue-400">AGENTS.md</span>,{" "}
+        <span className="font-mono text-blue-400">GEMINI.md</span> or Cursor and Copilot rules.
       </p>
+      <RecentWorkspacesList
+        workspaces={recentWorkspaces}
+        onOpen={onOpenRecent}
+        onRemove={onRemoveRecent}
+        disabled={isScanning}
+      />
     </div>
   </div>
 );
@@ -320,7 +1367,7 @@ const Footer: React.FC<FooterProps> = ({ filesCount, parseTarget }) => (
   <div className="h-6 bg-blue-900/10 border-t border-blue-900/20 flex items-center px-4 text-[10px] text-blue-300/60 justify-between">
     <span>Files: {filesCount}</span>
     <span>
-      Mode: {parseTarget} (Graph only shows relationships between {parseTarget} files)
+      Mode: {getProfile(parseTarget).label} (Graph roots at the {getProfile(parseTarget).label} root file)
     </span>
   </div>
 );
@@ -0,0 +1,146 @@
+/**
+ * agentlink command line entry point
+ * Runs the visualizer's scanning and parsing services against a local path
+ */
+
+import { parseArgs } from "node:util";
+import { DEFAULT_PARSE_MODE, ParseMode, PROFILES, REPO_CONFIG } from "../constants";
+import { CliError } from "./errors";
+import { runGraphCommand } from "./commands/graph";
+import { runCheckCommand } from "./commands/check";
+import { runLintCommand } from "./commands/lint";
+import { runContextCommand } from "./commands/context";
+import { REPORT_FORMATS, ReportFormat } from "./reporters";
+
+const MODES = PROFILES.map((profile) => profile.id);
+
+const USAGE = `Usage: agentlink <command> [path] [options]
+
+Commands:
+  graph [path]        Print the reference graph as JSON
+  check [path]        Report unresolved references and orphaned instruction files;
+                      exits with code 1 when problems are found
+  lint [path]         Run the lint rules (length, imports, cycles, duplicates, ...);
+                      exits with code 1 when any problem is an error
+  context [path]      List the instruction files loaded for a directory, in order
+
+Options:
+  -m, --mode <mode>   Parse mode: ${MODES.join(" | ")} (default: defaultMode from
+                      ${REPO_CONFIG.FILE_NAME}, else ${DEFAULT_PARSE_MODE})
+  -f, --format <fmt>  check and lint output format: ${REPORT_FORMATS.join(" | ")} (default: text);
+                      context accepts text | json
+      --paths         Check referenced source files and directories on disk: graph
+                      adds them as leaf nodes, check and lint report the missing ones
+      --inherit       graph links nested instruction files to those of enclosing
+                      directories, following the mode's lookup rules (default: on
+                      for modes that read enclosing directories, as in the app)
+      --no-inherit    graph leaves out those links
+  -d, --dir <dir>     context working directory, relative to path (default: .)
+      --concat        context prints the concatenated, de-duplicated document
+      --pretty        Pretty-print JSON output
+  -h, --help          Show this help
+`;
+
+/**
+ * Validate the --format option against the supported report formats
+ */
+const parseFormat = (value: string | undefined): ReportFormat => {
+  if (value === undefined) return "text";
+
+  const format = REPORT_FORMATS.find((f) => f === value.toLowerCase());
+  if (!format) {
+    throw new CliError(`Unknown format "${value}". Expected one of: ${REPORT_FORMATS.join(", ")}`);
+  }
+  return format;
+};
+
+/**
+ * Validate the --mode option against the supported parse modes
+ * Without --mode, commands fall back to the repository's configured default
+ */
+const parseMode = (value: string | undefined): ParseMode | undefined => {
+  if (value === undefined) return undefined;
+
+  const mode = MODES.find((id) => id.toLowerCase() === value.toLowerCase());
+  if (!mode) {
+    throw new CliError(`Unknown mode "${value}". Expected one of: ${MODES.join(", ")}`);
+  }
+  return mode;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string", short: "m" },
+      format: { type: "string", short: "f" },
+      paths: { type: "boolean", default: false },
+      inherit: { type: "boolean" },
+      "no-inherit": { type: "boolean", default: false },
+      dir: { type: "string", short: "d", default: "." },
+      concat: { type: "boolean", default: false },
+      pretty: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, targetPath = "."] = positionals;
+
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  switch (command) {
+    case "graph":
+      return runGraphCommand({
+        path: targetPath,
+        mode: parseMode(values.mode),
+        paths: values.paths,
+        inherit: values["no-inherit"] ? false : values.inherit,
+        pretty: values.pretty,
+      });
+    case "check":
+      return runCheckCommand({
+        path: targetPath,
+        mode: parseMode(values.mode),
+        paths: values.paths,
+        format: parseFormat(values.format),
+      });
+    case "lint":
+      return runLintCommand({
+        path: targetPath,
+        mode: parseMode(values.mode),
+        paths: values.paths,
+        format: parseFormat(values.format),
+      });
+    case "context":
+      return runContextCommand({
+        path: targetPath,
+        mode: parseMode(values.mode),
+        directory: values.dir,
+        concat: values.concat,
+        format: parseFormat(values.format),
+      });
+    default:
+      throw new CliError(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+main(process.argv.slice(2))
+  .then((exitCode) => {
+    process.exitCode = exitCode;
+  })
+  .catch((error: unknown) => {
+    if (error instanceof CliError) {
+      process.stderr.write(`agentlink: ${error.message}\n`);
+      process.exitCode = error.exitCode;
+    } else if (error instanceof Error && "code" in error && String(error.code).startsWith("ERR_PARSE_ARGS")) {
+      process.stderr.write(`agentlink: ${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+    } else {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  });
@@ -0,0 +1,28 @@
+/**
+ * `agentlink check` command
+ * Fails when references are broken or instruction files are unreachable from the root
+ */
+
+import { checkReferences } from "../../services/referenceChecker";
+import { isInstructionFile } from "../../services/fileParser";
+import { ParseMode } from "../../constants";
+import { buildWorkspaceGraph, loadWorkspace } from "../workspace";
+import { formatReport, ReportFormat } from "../reporters";
+
+export interface CheckCommandOptions {
+  path: string;
+  mode?: ParseMode;
+  /** Also report references to source files and directories that don't exist */
+  paths: boolean;
+  format: ReportFormat;
+}
+
+export const runCheckCommand = async (options: CheckCommandOptions): Promise<number> => {
+  const workspace = await loadWorkspace(options.path, options.mode);
+  const { files, mode } = workspace;
+  const issues = checkReferences(files, mode, await buildWorkspaceGraph(workspace, options.paths));
+  const filesChecked = files.filter((file) => isInstructionFile(file, mode)).length;
+
+  process.stdout.write(formatReport(options.format, issues, filesChecked));
+  return issues.length > 0 ? 1 : 0;
+};
@@ -0,0 +1,83 @@
+/**
+ * `agentlink context` command
+ * Prints the instruction files an agent loads when working in a directory
+ */
+
+import { assembleContext } from "../../services/contextAssembler";
+import { ContextEntry, EffectiveContext } from "../../types";
+import { ParseMode, getProfile } from "../../constants";
+import { loadWorkspace } from "../workspace";
+import { ReportFormat } from "../reporters";
+import { CliError } from "../errors";
+
+export interface ContextCommandOptions {
+  path: string;
+  mode?: ParseMode;
+  /** Working directory, relative to the repository root */
+  directory: string;
+  /** Print the concatenated document instead of the file list */
+  concat: boolean;
+  format: ReportFormat;
+}
+
+// Text shown for each reason in the file list
+const REASON_LABELS: Record<ContextEntry["reason"], string> = {
+  ancestor: "directory",
+  import: "import",
+  depthCutoff: "depth cutoff",
+};
+
+/**
+ * Format the context as a numbered file list; cut-off imports are marked with "-"
+ */
+const formatContext = (context: EffectiveContext, mode: ParseMode): string => {
+  const header = `Effective ${getProfile(mode).label} context for ${context.directory || "."}/`;
+  if (context.entries.length === 0) {
+    return `${header}\n  (no instruction files)\n`;
+  }
+
+  const width = Math.max(...context.entries.map((entry) => entry.file.path.length));
+  let position = 0;
+  const lines = context.entries.map(({ file, reason, chain, depth }) => {
+    const marker = reason === "depthCutoff" ? "-" : `${++position}.`;
+    const via = chain.length > 0 ? `  (${[...chain, file.path].join(" → ")})` : "";
+    const level = reason === "depthCutoff" ? ` at depth ${depth}` : "";
+    return `  ${marker.padStart(3)} ${file.path.padEnd(width)}  ${REASON_LABELS[reason]}${level}${via}`;
+  });
+
+  const footer =
+    context.duplicatesRemoved > 0
+      ? `\n\n${context.duplicatesRemoved} repeated list items dropped from the concatenated document`
+      : "";
+  return `${header}\n${lines.join("\n")}${footer}\n`;
+};
+
+export const runContextCommand = async (options: ContextCommandOptions): Promise<number> => {
+  if (options.format === "sarif") {
+    throw new CliError("context supports --format text or json");
+  }
+
+  const { files, mode } = await loadWorkspace(options.path, options.mode);
+  const directory = options.directory.replace(/^\.?\/+|\/+$/g, "").replace(/^\.$/, "");
+  const context = assembleContext(files, mode, directory);
+
+  if (options.concat) {
+    process.stdout.write(`${context.document}\n`);
+  } else if (options.format === "json") {
+    const output = {
+      mode,
+      directory: context.directory,
+      entries: context.entries.map(({ file, reason, chain, depth }) => ({
+        path: file.path,
+        reason,
+        chain,
+        depth,
+      })),
+      duplicatesRemoved: context.duplicatesRemoved,
+    };
+    process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+  } else {
+    process.stdout.write(formatContext(context, mode));
+  }
+  return 0;
+};
@@ -0,0 +1,66 @@
+/**
+ * `agentlink graph` command
+ * Prints the reference graph of a local repository as JSON
+ */
+
+import { computeSizeMetrics } from "../../services/sizeMetrics";
+import { GraphData, SizeMetrics } from "../../types";
+import { ParseMode, getProfile } from "../../constants";
+import { buildWorkspaceGraph, loadWorkspace } from "../workspace";
+
+export interface GraphCommandOptions {
+  path: string;
+  mode?: ParseMode;
+  /** Add referenced source files and directories as leaf nodes */
+  paths: boolean;
+  /** Add implicit directory-hierarchy links (the mode's default when unset) */
+  inherit?: boolean;
+  pretty: boolean;
+}
+
+/**
+ * Convert graph data to a JSON-safe structure
+ * Drops file handles and contents, flattens link endpoints to node IDs and adds
+ * document sizes when given
+ */
+export const serializeGraph = (graph: GraphData, sizes?: Map<string, SizeMetrics>) => ({
+  nodes: graph.nodes.map((node) => ({
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    directory: node.file.directory,
+    isRoot: node.isRoot,
+    val: node.val,
+    size: sizes?.get(node.id),
+    frontmatter: node.file.frontmatter,
+  })),
+  links: graph.links.map((link) => ({
+    source: typeof link.source === "string" ? link.source : link.source.id,
+    target: typeof link.target === "string" ? link.target : link.target.id,
+    anchors: link.anchors,
+    kinds: link.kinds,
+    count: link.count,
+    lines: link.occurrences.map((occurrence) => occurrence.line),
+    inheritance: link.inheritance,
+  })),
+  unresolved: graph.unresolved,
+  externalLinks: graph.externalLinks,
+  caseMismatches: graph.caseMismatches,
+});
+
+export const runGraphCommand = async (options: GraphCommandOptions): Promise<number> => {
+  const workspace = await loadWorkspace(options.path, options.mode);
+  const { rootPath, files, mode } = workspace;
+  const inherit = options.inherit ?? getProfile(mode).inheritanceEdges;
+  const graph = await buildWorkspaceGraph(workspace, options.paths, inherit);
+
+  const output = {
+    root: rootPath,
+    mode,
+    filesScanned: files.length,
+    ...serializeGraph(graph, computeSizeMetrics(files, graph.nodes, mode)),
+  };
+
+  process.stdout.write(`${JSON.stringify(output, null, options.pretty ? 2 : undefined)}\n`);
+  return 0;
+};
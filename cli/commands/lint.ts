@@ -0,0 +1,30 @@
+/**
+ * `agentlink lint` command
+ * Runs the lint rules and fails when any problem has error severity
+ */
+
+import { runLint } from "../../services/linter";
+import { BUILTIN_RULES } from "../../services/lintRules";
+import { isInstructionFile } from "../../services/fileParser";
+import { ParseMode } from "../../constants";
+import { buildWorkspaceGraph, loadWorkspace } from "../workspace";
+import { formatReport, ReportFormat } from "../reporters";
+
+export interface LintCommandOptions {
+  path: string;
+  mode?: ParseMode;
+  /** Also report references to source files and directories that don't exist */
+  paths: boolean;
+  format: ReportFormat;
+}
+
+export const runLintCommand = async (options: LintCommandOptions): Promise<number> => {
+  const workspace = await loadWorkspace(options.path, options.mode);
+  const { files, mode } = workspace;
+  const graph = await buildWorkspaceGraph(workspace, options.paths);
+  const problems = runLint(files, mode, { graph });
+  const filesChecked = files.filter((file) => isInstructionFile(file, mode)).length;
+
+  process.stdout.write(formatReport(options.format, problems, filesChecked, [...BUILTIN_RULES]));
+  return problems.some((problem) => problem.severity === "error") ? 1 : 0;
+};
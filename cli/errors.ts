@@ -0,0 +1,17 @@
+/**
+ * CLI error types
+ */
+
+/**
+ * Error reported to the user without a stack trace
+ * Exit code 2 signals invalid usage or input, distinct from check failures
+ */
+export class CliError extends Error {
+  readonly exitCode: number;
+
+  constructor(message: string, exitCode: number = 2) {
+    super(message);
+    this.name = "CliError";
+    this.exitCode = exitCode;
+  }
+}
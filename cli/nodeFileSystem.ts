@@ -0,0 +1,60 @@
+/**
+ * Node.js file system adapter
+ * Exposes local directories through the same handle shape the browser scanner uses,
+ * so scanDirectory runs unchanged outside the browser
+ */
+
+import { opendir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ScanDirectoryHandle, ScanFileHandle } from "../types";
+
+/**
+ * Create a file handle backed by a path on disk
+ * Content is only read when getFile() is called
+ */
+export const createNodeFileHandle = (filePath: string): ScanFileHandle => ({
+  kind: "file",
+  name: path.basename(filePath),
+  getFile: async () => {
+    const [content, stats] = await Promise.all([readFile(filePath), stat(filePath)]);
+    return new File([content], path.basename(filePath), {
+      lastModified: stats.mtimeMs,
+    });
+  },
+});
+
+/**
+ * Create a directory handle backed by a path on disk
+ * Symbolic links are not followed, matching the browser directory picker
+ */
+export const createNodeDirectoryHandle = (dirPath: string): ScanDirectoryHandle => ({
+  kind: "directory",
+  name: path.basename(dirPath),
+  async *values() {
+    const dir = await opendir(dirPath);
+    for await (const entry of dir) {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        yield createNodeDirectoryHandle(entryPath);
+      } else if (entry.isFile()) {
+        yield createNodeFileHandle(entryPath);
+      }
+    }
+  },
+  getFileHandle: async (name: string) => {
+    const filePath = path.join(dirPath, name);
+    const stats = await stat(filePath);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${filePath}`);
+    }
+    return createNodeFileHandle(filePath);
+  },
+  getDirectoryHandle: async (name: string) => {
+    const childPath = path.join(dirPath, name);
+    const stats = await stat(childPath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${childPath}`);
+    }
+    return createNodeDirectoryHandle(childPath);
+  },
+});
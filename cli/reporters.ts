@@ -0,0 +1,120 @@
+/**
+ * Output formats for check and lint results
+ * Plain text for terminals, JSON for scripts and SARIF for code scanning tools
+ */
+
+import { CheckRule, LintProblem, LintSeverity } from "../types";
+
+export type ReportFormat = "text" | "json" | "sarif";
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["text", "json", "sarif"];
+
+// A reported problem; check issues have no severity and are always errors
+export type ReportIssue = Omit<LintProblem, "severity"> & { severity?: LintSeverity };
+
+// Rule shown in SARIF tool metadata
+export interface ReportRule {
+  id: string;
+  description: string;
+}
+
+// Descriptions of the reference checker's rules
+const CHECK_RULE_DESCRIPTIONS: Record<CheckRule, string> = {
+  "unresolved-reference": "Reference points at a markdown file that does not exist",
+  "orphaned-file": "Instruction file is not reachable from the root file",
+  "missing-root": "Repository has no root instruction file for the parse mode",
+  "ecosystem-drift": "Directory's CLAUDE.md and AGENTS.md files are missing or unlinked",
+  "case-mismatch": "Reference matches a file only when letter case is ignored",
+};
+
+const CHECK_RULES: ReportRule[] = Object.entries(CHECK_RULE_DESCRIPTIONS).map(
+  ([id, description]) => ({ id, description })
+);
+
+const SARIF_LEVELS: Record<LintSeverity, string> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+const SEVERITY_ORDER: LintSeverity[] = ["error", "warning", "info"];
+
+/**
+ * Format issues as `file:line:column  [severity]  rule  message` lines with a summary
+ */
+const formatText = (issues: ReportIssue[], filesChecked: number): string => {
+  if (issues.length === 0) {
+    return `✓ ${filesChecked} ${filesChecked === 1 ? "file" : "files"} checked, no problems found\n`;
+  }
+
+  const lines = issues.map((issue) => {
+    const location = issue.line ? `${issue.file}:${issue.line}:${issue.column}` : issue.file;
+    const severity = issue.severity ? `${issue.severity}  ` : "";
+    return `${location}  ${severity}${issue.rule}  ${issue.message}`;
+  });
+
+  // Lint problems are also counted by severity
+  const counts = SEVERITY_ORDER.map((severity) => {
+    const count = issues.filter((issue) => issue.severity === severity).length;
+    return count > 0 ? `${count} ${severity}${count === 1 ? "" : "s"}` : "";
+  }).filter(Boolean);
+  const breakdown = counts.length > 0 ? ` (${counts.join(", ")})` : "";
+
+  const plural = issues.length === 1 ? "problem" : "problems";
+  const filePlural = filesChecked === 1 ? "file" : "files";
+  return `${lines.join("\n")}\n\n✗ ${issues.length} ${plural}${breakdown} in ${filesChecked} ${filePlural}\n`;
+};
+
+/**
+ * Format issues as a SARIF 2.1.0 log
+ */
+const formatSarif = (issues: ReportIssue[], reportRules: ReportRule[]): string => {
+  const rules = reportRules.map(({ id, description }) => ({
+    id,
+    shortDescription: { text: description },
+  }));
+
+  const results = issues.map((issue) => ({
+    ruleId: issue.rule,
+    level: issue.severity ? SARIF_LEVELS[issue.severity] : "error",
+    message: { text: issue.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: issue.file },
+          ...(issue.line && {
+            region: { startLine: issue.line, startColumn: issue.column },
+          }),
+        },
+      },
+    ],
+  }));
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{ tool: { driver: { name: "agentlink", rules } }, results }],
+  };
+
+  return `${JSON.stringify(log, null, 2)}\n`;
+};
+
+/**
+ * Render check issues or lint problems in the requested format
+ * Rules default to the reference checker's
+ */
+export const formatReport = (
+  format: ReportFormat,
+  issues: ReportIssue[],
+  filesChecked: number,
+  rules: ReportRule[] = CHECK_RULES
+): string => {
+  switch (format) {
+    case "json":
+      return `${JSON.stringify({ filesChecked, issues }, null, 2)}\n`;
+    case "sarif":
+      return formatSarif(issues, rules);
+    default:
+      return formatText(issues, filesChecked);
+  }
+};
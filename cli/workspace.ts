@@ -0,0 +1,69 @@
+/**
+ * Workspace loading for CLI commands
+ * Scans a local directory and loads file contents with the shared browser services
+ */
+
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { AgentFile, GraphData, ScanDirectoryHandle } from "../types";
+import { DEFAULT_PARSE_MODE, ParseMode } from "../constants";
+import { scanDirectory, loadAllFileContents } from "../services/directoryScanner";
+import { buildGraphData, collectReferencedPaths } from "../services/fileParser";
+import { probePaths } from "../services/pathProbe";
+import { getRepoConfig } from "../services/repoConfig";
+import { createNodeDirectoryHandle } from "./nodeFileSystem";
+import { CliError } from "./errors";
+
+export interface Workspace {
+  /** Absolute path of the scanned directory */
+  rootPath: string;
+  /** Handle of the scanned directory, for checks that go back to disk */
+  dirHandle: ScanDirectoryHandle;
+  /** Markdown files with content loaded */
+  files: AgentFile[];
+  /** Parse mode: the requested one, else the repository's configured default */
+  mode: ParseMode;
+}
+
+/**
+ * Scan a directory on disk and load every markdown file it contains
+ */
+export const loadWorkspace = async (
+  targetPath: string,
+  mode?: ParseMode
+): Promise<Workspace> => {
+  const rootPath = path.resolve(targetPath);
+
+  const stats = await stat(rootPath).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new CliError(`Not a directory: ${rootPath}`);
+  }
+
+  const dirHandle = createNodeDirectoryHandle(rootPath);
+  const foundFiles = await scanDirectory(dirHandle);
+  const files = await loadAllFileContents(foundFiles);
+
+  return {
+    rootPath,
+    dirHandle,
+    files,
+    mode: mode ?? getRepoConfig(files).defaultMode ?? DEFAULT_PARSE_MODE,
+  };
+};
+
+/**
+ * Build the workspace's reference graph
+ * With checkPaths, referenced source files and directories are looked up on disk and
+ * become leaf nodes, and references to missing paths are reported as unresolved.
+ * With inheritance, nested instruction files are linked to those of enclosing directories.
+ */
+export const buildWorkspaceGraph = async (
+  { dirHandle, files, mode }: Workspace,
+  checkPaths: boolean,
+  inheritance: boolean = false
+): Promise<GraphData> => {
+  const referencedPaths = checkPaths
+    ? await probePaths(dirHandle, collectReferencedPaths(files, mode))
+    : undefined;
+  return buildGraphData(files, mode, { referencedPaths, inheritance });
+};
@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { getBudgetStatus } from "../services/sizeMetrics";
+import { AgentFile, BudgetThresholds, GraphNode, SizeMetrics } from "../types";
+import { COLORS } from "../constants";
+
+interface BudgetPanelProps {
+  nodes: GraphNode[];
+  metrics: Map<string, SizeMetrics>;
+  thresholds: BudgetThresholds;
+  onThresholdsChange: (thresholds: BudgetThresholds) => void;
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}
+
+type SortKey = "path" | keyof SizeMetrics;
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: "path", label: "File", title: "File path" },
+  { key: "tokens", label: "Tokens", title: "Estimated tokens of the file itself" },
+  { key: "words", label: "Words", title: "Words in the file itself" },
+  { key: "chars", label: "Chars", title: "Characters in the file itself" },
+  { key: "importedFiles", label: "Imports", title: "Files pulled in through @ imports, as deep as the parse mode expands them" },
+  { key: "totalTokens", label: "Total tokens", title: "Estimated tokens of the file and everything it imports" },
+  { key: "totalWords", label: "Total words", title: "Words in the file and everything it imports" },
+];
+
+// Number input for one budget threshold
+const ThresholdInput: React.FC<{
+  label: string;
+  color: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ label, color, value, onChange }) => (
+  <label className="flex items-center gap-1.5 text-gray-400">
+    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={500}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="w-20 bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 font-mono text-gray-200 focus:outline-none focus:border-blue-500"
+    />
+  </label>
+);
+
+// Sortable table of file sizes and import-closure totals against the token budget
+export const BudgetPanel: React.FC<BudgetPanelProps> = ({
+  nodes,
+  metrics,
+  thresholds,
+  onThresholdsChange,
+  onFileSelect,
+  selectedPath,
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "totalTokens",
+    descending: true,
+  });
+
+  const rows = useMemo(() => {
+    const measured = nodes.flatMap((node) => {
+      const size = metrics.get(node.id);
+      return size ? [{ node, size }] : [];
+    });
+
+    return measured.sort((a, b) => {
+      const order =
+        sort.key === "path"
+          ? a.node.id.localeCompare(b.node.id)
+          : a.size[sort.key] - b.size[sort.key];
+      return sort.descending ? -order : order;
+    });
+  }, [nodes, metrics, sort]);
+
+  const overCount = rows.filter(({ size }) => getBudgetStatus(size.totalTokens, thresholds) === "over").length;
+  const warnCount = rows.filter(({ size }) => getBudgetStatus(size.totalTokens, thresholds) === "warn").length;
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) =>
+      prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== "path" }
+    );
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center gap-4 px-3 py-2 border-b border-gray-800 shrink-0">
+        <ThresholdInput
+          label="Warn above"
+          color={COLORS.budget.warn}
+          value={thresholds.warnTokens}
+          onChange={(warnTokens) => onThresholdsChange({ ...thresholds, warnTokens })}
+        />
+        <ThresholdInput
+          label="Over above"
+          color={COLORS.budget.over}
+          value={thresholds.maxTokens}
+          onChange={(maxTokens) => onThresholdsChange({ ...thresholds, maxTokens })}
+        />
+        <span className="ml-auto text-gray-500">
+          Total tokens: {overCount} over, {warnCount} near the budget
+        </span>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-gray-950 text-gray-500">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  title={column.title}
+                  onClick={() => toggleSort(column.key)}
+                  className={`px-3 py-1.5 font-medium cursor-pointer select-none hover:text-gray-300 ${
+                    column.key === "path" ? "text-left" : "text-right"
+                  }`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {column.label}
+                    {sort.key === column.key &&
+                      (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {rows.map(({ node, size }) => {
+              const status = getBudgetStatus(size.totalTokens, thresholds);
+              return (
+                <tr
+                  key={node.id}
+                  onClick={() => onFileSelect(node.file)}
+                  className={`cursor-pointer border-t border-gray-800/60 ${
+                    node.id === selectedPath ? "bg-blue-900/30" : "hover:bg-gray-800/60"
+                  }`}
+                >
+                  <td className="px-3 py-1 text-gray-200 truncate max-w-xs">{node.id}</td>
+                  <td className="px-3 py-1 text-right text-gray-300">{size.tokens.toLocaleString()}</td>
+                  <td className="px-3 py-1 text-right text-gray-400">{size.words.toLocaleString()}</td>
+                  <td className="px-3 py-1 text-right text-gray-400">{size.chars.toLocaleString()}</td>
+                  <td className="px-3 py-1 text-right text-gray-400">{size.importedFiles}</td>
+                  <td
+                    className="px-3 py-1 text-right font-bold"
+                    style={{ color: COLORS.budget[status] }}
+                  >
+                    {size.totalTokens.toLocaleString()}
+                  </td>
+                  <td className="px-3 py-1 text-right text-gray-400">
+                    {size.totalWords.toLocaleString()}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useMemo } from "react";
+import { ArrowRight, FolderX } from "lucide-react";
+import { GraphView } from "./GraphView";
+import { getComparisonId } from "../services/ecosystemComparison";
+import { AgentFile, EcosystemComparison, GraphData } from "../types";
+import { COLORS, ParseMode, getProfile } from "../constants";
+
+interface ComparisonViewProps {
+  comparison: EcosystemComparison;
+  leftMode: ParseMode;
+  rightMode: ParseMode;
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}
+
+type Side = "left" | "right";
+
+// One ecosystem's aligned graph, colored by whether the other side has the same nodes and links
+const ComparisonPane: React.FC<{
+  comparison: EcosystemComparison;
+  side: Side;
+  mode: ParseMode;
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}> = ({ comparison, side, mode, onFileSelect, selectedPath }) => {
+  const profile = getProfile(mode);
+  const graph: GraphData = comparison[side];
+
+  const { nodeColors, linkColors, onlyHere } = useMemo(() => {
+    const getColor = (presence: string | undefined) =>
+      presence === "both" ? COLORS.comparison.both : COLORS.comparison.onlyHere;
+    return {
+      nodeColors: new Map(
+        graph.nodes.map((node) => [node.id, getColor(comparison.nodePresence.get(node.id))])
+      ),
+      linkColors: new Map(
+        Array.from(comparison.linkPresence, ([key, presence]) => [key, getColor(presence)])
+      ),
+      onlyHere: graph.nodes.filter((node) => comparison.nodePresence.get(node.id) === side).length,
+    };
+  }, [comparison, graph, side]);
+
+  const colorLegend = useMemo(
+    () => [
+      { label: "In both", color: COLORS.comparison.both },
+      { label: `Only in ${profile.label}`, color: COLORS.comparison.onlyHere },
+    ],
+    [profile.label]
+  );
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0 border-r last:border-r-0 border-gray-800">
+      <div className="flex items-center gap-2 px-3 h-8 border-b border-gray-800 text-xs shrink-0">
+        <span
+          className="w-2 h-2 rounded-full"
+          style={{ backgroundColor: profile.colors.fill }}
+        />
+        <span className="font-medium" style={{ color: profile.colors.text }}>
+          {profile.label}
+        </span>
+        <span className="text-gray-500">
+          {graph.nodes.length} nodes, {graph.links.length} links, {onlyHere} only here
+        </span>
+      </div>
+      <div className="flex-1 overflow-hidden">
+        <GraphView
+          nodes={graph.nodes}
+          links={graph.links}
+          onNodeClick={onFileSelect}
+          selectedPath={selectedPath && getComparisonId(selectedPath, profile)}
+          activeMode={mode}
+          nodeColors={nodeColors}
+          colorLegend={colorLegend}
+          linkColors={linkColors}
+        />
+      </div>
+    </div>
+  );
+};
+
+// Directories and references one ecosystem has and the other lacks
+const MissingList: React.FC<{
+  comparison: EcosystemComparison;
+  presentIn: Side;
+  presentLabel: string;
+  missingLabel: string;
+  onFileSelect: (file: AgentFile) => void;
+}> = ({ comparison, presentIn, presentLabel, missingLabel, onFileSelect }) => {
+  const directories = comparison.missingDirectories.filter((entry) => entry.presentIn === presentIn);
+  const imports = comparison.missingImports.filter((entry) => entry.presentIn === presentIn);
+
+  return (
+    <div className="flex-1 flex flex-col min-w-0 border-r last:border-r-0 border-gray-800">
+      <div className="px-3 py-1.5 text-gray-400 border-b border-gray-800 shrink-0">
+        Missing from {missingLabel}{" "}
+        <span className="text-gray-600">
+          ({directories.length} directories, {imports.length} @ imports in {presentLabel})
+        </span>
+      </div>
+      {directories.length === 0 && imports.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500">
+          Nothing: {missingLabel} covers everything {presentLabel} has.
+        </div>
+      ) : (
+        <ul className="flex-1 overflow-y-auto divide-y divide-gray-800/60">
+          {directories.map((entry) => (
+            <li
+              key={`dir:${entry.directory}`}
+              onClick={() => entry.files[0] && onFileSelect(entry.files[0])}
+              className="flex items-center gap-2 px-3 py-1 cursor-pointer hover:bg-gray-800/60"
+            >
+              <FolderX size={12} className="text-amber-400 shrink-0" />
+              <span className="font-mono text-gray-200 truncate">{entry.directory || "."}/</span>
+              <span className="ml-auto text-gray-500 truncate">
+                {entry.files.map((file) => file.name).join(", ")}
+              </span>
+            </li>
+          ))}
+          {imports.map((entry) => (
+            <li
+              key={`import:${entry.source}->${entry.target}`}
+              onClick={() => onFileSelect(entry.file)}
+              className="flex items-center gap-2 px-3 py-1 cursor-pointer hover:bg-gray-800/60"
+            >
+              <span className="font-mono text-gray-200 truncate">{entry.source}</span>
+              <ArrowRight size={12} className="text-amber-400 shrink-0" />
+              <span className="font-mono text-gray-200 truncate">{entry.target}</span>
+              <span className="ml-auto font-mono text-gray-500 shrink-0">
+                {entry.file.path}:{entry.line}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Side-by-side graphs of two ecosystems, aligned by directory, with what each lacks
+export const ComparisonView: React.FC<ComparisonViewProps> = ({
+  comparison,
+  leftMode,
+  rightMode,
+  onFileSelect,
+  selectedPath,
+}) => {
+  const leftLabel = getProfile(leftMode).label;
+  const rightLabel = getProfile(rightMode).label;
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 flex overflow-hidden">
+        <ComparisonPane
+          comparison={comparison}
+          side="left"
+          mode={leftMode}
+          onFileSelect={onFileSelect}
+          selectedPath={selectedPath}
+        />
+        <ComparisonPane
+          comparison={comparison}
+          side="right"
+          mode={rightMode}
+          onFileSelect={onFileSelect}
+          selectedPath={selectedPath}
+        />
+      </div>
+      <div className="h-56 flex border-t border-gray-800 bg-gray-950 text-xs shrink-0">
+        <MissingList
+          comparison={comparison}
+          presentIn="left"
+          presentLabel={leftLabel}
+          missingLabel={rightLabel}
+          onFileSelect={onFileSelect}
+        />
+        <MissingList
+          comparison={comparison}
+          presentIn="right"
+          presentLabel={rightLabel}
+          missingLabel={leftLabel}
+          onFileSelect={onFileSelect}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo } from "react";
+import { Layers, X } from "lucide-react";
+import { MarkdownViewer } from "./MarkdownViewer";
+import { AgentFile, ContextEntry, EffectiveContext } from "../types";
+import { getProfile, ParseMode } from "../constants";
+
+interface ContextPanelProps {
+  context: EffectiveContext;
+  parseTarget: ParseMode;
+  /** Directories that can be picked as the working directory */
+  directories: string[];
+  onDirectoryChange: (directory: string) => void;
+  onFileSelect: (file: AgentFile) => void;
+  onClose: () => void;
+}
+
+// Badge text and colors for each reason
+const REASON_BADGES: Record<ContextEntry["reason"], { label: string; className: string }> = {
+  ancestor: { label: "directory", className: "bg-blue-900/40 text-blue-300 border-blue-800" },
+  import: { label: "import", className: "bg-emerald-900/40 text-emerald-300 border-emerald-800" },
+  depthCutoff: { label: "depth cutoff", className: "bg-gray-800 text-gray-400 border-gray-700" },
+};
+
+// Effective context of a directory: load order on top, concatenated document below
+export const ContextPanel: React.FC<ContextPanelProps> = ({
+  context,
+  parseTarget,
+  directories,
+  onDirectoryChange,
+  onFileSelect,
+  onClose,
+}) => {
+  const document = useMemo(
+    (): AgentFile => ({
+      path: `${context.directory || "."}/ · effective ${getProfile(parseTarget).label} context`,
+      name: "Effective context",
+      directory: context.directory,
+      content: context.document || "_No instruction files are loaded here._",
+    }),
+    [context, parseTarget]
+  );
+  let position = 0;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b border-gray-800 p-3 bg-gray-950/50 shrink-0 max-h-[45%] flex flex-col">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center text-gray-400 text-xs uppercase font-semibold tracking-wider">
+            <Layers size={14} className="mr-2" />
+            Effective Context
+          </div>
+          <button
+            onClick={onClose}
+            title="Close context view"
+            className="p-0.5 text-gray-500 hover:text-gray-200 cursor-pointer"
+          >
+            <X size={14} />
+          </button>
+        </div>
+        <select
+          value={context.directory}
+          onChange={(e) => onDirectoryChange(e.target.value)}
+          className="bg-gray-900 border border-gray-800 rounded text-sm font-mono text-gray-200 px-2 py-1 mb-2 focus:outline-none cursor-pointer"
+        >
+          {directories.map((directory) => (
+            <option key={directory} value={directory}>
+              {directory || "."}/
+            </option>
+          ))}
+        </select>
+        {context.entries.length === 0 ? (
+          <p className="text-xs text-gray-500">
+            No {getProfile(parseTarget).label} files apply to this directory.
+          </p>
+        ) : (
+          <ol className="overflow-y-auto space-y-1 text-xs">
+            {context.entries.map((entry) => {
+              const badge = REASON_BADGES[entry.reason];
+              const isCutoff = entry.reason === "depthCutoff";
+              return (
+                <li key={entry.file.path}>
+                  <button
+                    onClick={() => onFileSelect(entry.file)}
+                    title={
+                      entry.chain.length > 0
+                        ? [...entry.chain, entry.file.path].join(" → ")
+                        : "Loaded from an enclosing directory"
+                    }
+                    className={`w-full flex items-center gap-2 text-left px-1 py-0.5 rounded hover:bg-gray-800 cursor-pointer ${
+                      isCutoff ? "opacity-60" : ""
+                    }`}
+                  >
+                    <span className="w-5 text-right text-gray-600 font-mono shrink-0">
+                      {isCutoff ? "–" : `${++position}.`}
+                    </span>
+                    <span className={`font-mono truncate ${isCutoff ? "line-through text-gray-500" : "text-gray-200"}`}>
+                      {entry.file.path}
+                    </span>
+                    <span className={`ml-auto shrink-0 px-1.5 rounded border text-[10px] ${badge.className}`}>
+                      {isCutoff ? `${badge.label} (${entry.depth})` : badge.label}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+        {context.duplicatesRemoved > 0 && (
+          <p className="mt-2 text-[10px] text-gray-500">
+            {context.duplicatesRemoved} repeated list item{context.duplicatesRemoved === 1 ? "" : "s"} dropped
+            from the document
+          </p>
+        )}
+      </div>
+      <div className="flex-1 min-h-0">
+        <MarkdownViewer file={document} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useMemo } from "react";
+import { ChevronRight, Repeat } from "lucide-react";
+import { AgentFile, ReferenceCycle } from "../types";
+
+interface CyclesPanelProps {
+  cycles: ReferenceCycle[];
+  files: AgentFile[];
+  /** Index of the cycle highlighted in the graph */
+  selectedIndex: number | null;
+  onCycleSelect: (index: number | null) => void;
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}
+
+// @ import cycles, each with one closed path through it; selecting one highlights it in the graph
+export const CyclesPanel: React.FC<CyclesPanelProps> = ({
+  cycles,
+  files,
+  selectedIndex,
+  onCycleSelect,
+  onFileSelect,
+  selectedPath,
+}) => {
+  const filesByPath = useMemo(() => new Map(files.map((file) => [file.path, file])), [files]);
+
+  if (cycles.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-xs text-gray-500">
+        No import cycles: no file @ imports itself back.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="h-full overflow-y-auto text-xs divide-y divide-gray-800/60">
+      {cycles.map((cycle, index) => {
+        const isSelected = index === selectedIndex;
+        // Files of the component that the listed path doesn't pass through
+        const others = cycle.members.length - (cycle.path.length - 1);
+
+        return (
+          <li
+            key={cycle.members.join("\n")}
+            onClick={() => onCycleSelect(isSelected ? null : index)}
+            className={`flex items-center gap-3 px-3 py-1.5 cursor-pointer transition-colors ${
+              isSelected ? "bg-rose-900/30" : "hover:bg-gray-800/60"
+            }`}
+          >
+            <Repeat size={14} className={`shrink-0 ${isSelected ? "text-rose-300" : "text-rose-400"}`} />
+            <span className="text-gray-400 w-16 shrink-0">{cycle.members.length} files</span>
+            <span className="flex items-center flex-wrap gap-1 min-w-0">
+              {cycle.path.map((path, step) => {
+                const file = filesByPath.get(path);
+                return (
+                  <React.Fragment key={step}>
+                    {step > 0 && <ChevronRight size={12} className="text-gray-600 shrink-0" />}
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (file) onFileSelect(file);
+                      }}
+                      title={path}
+                      className={`px-1.5 py-0.5 rounded border font-mono cursor-pointer transition-colors ${
+                        path === selectedPath
+                          ? "bg-blue-900/40 border-blue-700 text-blue-200"
+                          : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+                      }`}
+                    >
+                      {path}
+                    </button>
+                  </React.Fragment>
+                );
+              })}
+            </span>
+            {others > 0 && (
+              <span className="ml-auto text-gray-500 shrink-0">+{others} more in the loop</span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
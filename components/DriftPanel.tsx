@@ -0,0 +1,54 @@
+import React from "react";
+import { Unlink, FileQuestionMark } from "lucide-react";
+import { describeDrift } from "../services/drift";
+import { AgentFile, DirectoryDrift } from "../types";
+
+interface DriftPanelProps {
+  drift: DirectoryDrift[];
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}
+
+// Directories whose CLAUDE.md and AGENTS.md files have drifted apart
+export const DriftPanel: React.FC<DriftPanelProps> = ({ drift, onFileSelect, selectedPath }) => {
+  if (drift.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-xs text-gray-500">
+        Every directory has both files, and they reference each other.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="h-full overflow-y-auto text-xs divide-y divide-gray-800/60">
+      {drift.map((entry) => (
+        <li key={entry.directory} className="flex items-center gap-3 px-3 py-1.5">
+          {entry.kind === "missingCounterpart" ? (
+            <FileQuestionMark size={14} className="text-amber-400 shrink-0" />
+          ) : (
+            <Unlink size={14} className="text-red-400 shrink-0" />
+          )}
+          <span className="font-mono text-gray-200 w-48 truncate shrink-0">
+            {entry.directory || "."}/
+          </span>
+          <span className="text-gray-400 truncate">{describeDrift(entry)}</span>
+          <span className="ml-auto flex gap-1.5 shrink-0">
+            {entry.files.map((file) => (
+              <button
+                key={file.path}
+                onClick={() => onFileSelect(file)}
+                className={`px-1.5 py-0.5 rounded border font-mono cursor-pointer transition-colors ${
+                  file.path === selectedPath
+                    ? "bg-blue-900/40 border-blue-700 text-blue-200"
+                    : "bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700"
+                }`}
+              >
+                {file.name}
+              </button>
+            ))}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
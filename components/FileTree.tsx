@@ -1,22 +1,30 @@
 import React, { useState } from 'react';
-import { ChevronRight, ChevronDown, FileText, Folder, FileCode } from 'lucide-react';
-import { FileTreeNode, AgentFile } from '../types';
+import { ChevronRight, ChevronDown, FileText, Folder, FileCode, Layers } from 'lucide-react';
+import { FileTreeNode, AgentFile, LintSeverity } from '../types';
+import { COLORS } from '../constants';
 
 interface FileTreeProps {
   nodes: FileTreeNode[];
   onSelect: (file: AgentFile) => void;
   selectedPath?: string;
+  /** Shows the effective context of a directory */
+  onSelectDirectory?: (path: string) => void;
+  /** Worst lint severity by file path, shown as a dot after the file name */
+  badges?: Map<string, LintSeverity>;
 }
 
 const FileTreeNodeItem: React.FC<{
   node: FileTreeNode;
   onSelect: (file: AgentFile) => void;
   selectedPath?: string;
+  onSelectDirectory?: (path: string) => void;
+  badges?: Map<string, LintSeverity>;
   level: number;
-}> = ({ node, onSelect, selectedPath, level }) => {
+}> = ({ node, onSelect, selectedPath, onSelectDirectory, badges, level }) => {
   // Expand all levels by default
   const [isOpen, setIsOpen] = useState(true);
   const isSelected = node.type === 'file' && node.fileData?.path === selectedPath;
+  const badge = node.type === 'file' ? badges?.get(node.path) : undefined;
 
   const handleToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -34,7 +42,7 @@ const FileTreeNodeItem: React.FC<{
   return (
     <div className="select-none">
       <div
-        className={`flex items-center py-1 px-2 cursor-pointer transition-colors duration-150 ${
+        className={`group flex items-center py-1 px-2 cursor-pointer transition-colors duration-150 ${
           isSelected ? 'bg-blue-600 text-white' : 'hover:bg-gray-800 text-gray-300'
         }`}
         style={{ paddingLeft: `${level * 12 + 8}px` }}
@@ -57,6 +65,27 @@ const FileTreeNodeItem: React.FC<{
         </span>
         
         <span className="text-sm truncate">{node.name}</span>
+
+        {badge && (
+          <span
+            title={`Worst lint problem: ${badge}`}
+            className="ml-auto w-2 h-2 rounded-full shrink-0"
+            style={{ backgroundColor: COLORS.severity[badge] }}
+          />
+        )}
+
+        {node.type === 'directory' && onSelectDirectory && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelectDirectory(node.path);
+            }}
+            title="Show the instructions loaded in this directory"
+            className="ml-auto p-0.5 text-gray-500 hover:text-gray-200 opacity-0 group-hover:opacity-100 cursor-pointer transition-opacity"
+          >
+            <Layers size={12} />
+          </button>
+        )}
       </div>
 
       {node.type === 'directory' && isOpen && node.children && (
@@ -67,6 +96,8 @@ const FileTreeNodeItem: React.FC<{
               node={child}
               onSelect={onSelect}
               selectedPath={selectedPath}
+              onSelectDirectory={onSelectDirectory}
+              badges={badges}
               level={level + 1}
             />
           ))}
@@ -76,7 +107,13 @@ const FileTreeNodeItem: React.FC<{
   );
 };
 
-export const FileTree: React.FC<FileTreeProps> = ({ nodes, onSelect, selectedPath }) => {
+export const FileTree: React.FC<FileTreeProps> = ({
+  nodes,
+  onSelect,
+  selectedPath,
+  onSelectDirectory,
+  badges,
+}) => {
   return (
     <div className="h-full overflow-y-auto py-2">
       {nodes.map((node) => (
@@ -85,6 +122,8 @@ export const FileTree: React.FC<FileTreeProps> = ({ nodes, onSelect, selectedPat
           node={node}
           onSelect={onSelect}
           selectedPath={selectedPath}
+          onSelectDirectory={onSelectDirectory}
+          badges={badges}
           level={0}
         />
       ))}
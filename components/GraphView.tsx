@@ -1,47 +1,115 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import * as d3 from "d3";
-import { GraphNode, GraphLink, AgentFile } from "../types";
-import { COLORS, getNodeColor, GRAPH, UI } from "../constants";
+import {
+  GraphNode,
+  GraphNodeType,
+  GraphLink,
+  AgentFile,
+  DocumentSection,
+  InheritanceKind,
+  LintSeverity,
+} from "../types";
+import {
+  COLORS,
+  GRAPH,
+  LINK_STYLES,
+  INHERITANCE_STYLES,
+  ParseMode,
+  PROFILES,
+  ProfileColors,
+  UI,
+} from "../constants";
+import { getFileProfile } from "../services/profiles";
 
 interface GraphViewProps {
   nodes: GraphNode[];
   links: GraphLink[];
   onNodeClick: (file: AgentFile) => void;
+  /** Called instead of onNodeClick when a section node is clicked */
+  onSectionClick?: (file: AgentFile, section: DocumentSection) => void;
+  /** Split a document into section nodes, or collapse it back (on double-click) */
+  onNodeToggle?: (path: string) => void;
   selectedPath?: string;
-  activeMode: "CLAUDE.md" | "AGENTS.md";
+  activeMode: ParseMode;
+  /** Values that size nodes, relative to the largest (default: connection count) */
+  nodeSizes?: Map<string, number>;
+  /** Fill colors that replace the file-type colors of the nodes they contain */
+  nodeColors?: Map<string, string>;
+  /** Legend entries explaining nodeColors */
+  colorLegend?: { label: string; color: string }[];
+  /** Worst lint severity by file path, drawn as a badge on document nodes */
+  nodeBadges?: Map<string, LintSeverity>;
+  /** Files to emphasize with the references between them (e.g., a cycle); the rest is dimmed */
+  highlightedFiles?: ReadonlySet<string>;
+  /** Stroke colors that replace the reference-kind colors, by "sourceId->targetId" */
+  linkColors?: Map<string, string>;
 }
 
-// File type classification
-type FileType = "CLAUDE.md" | "AGENTS.md" | "other" | null;
+// Colors of referenced paths that aren't scanned documents
+const LEAF_COLORS: Record<Exclude<GraphNodeType, "document" | "section">, ProfileColors> = {
+  sourceFile: {
+    fill: COLORS.node.sourceFile,
+    stroke: COLORS.node.sourceFileStroke,
+    text: COLORS.node.sourceFileText,
+  },
+  directory: {
+    fill: COLORS.node.directory,
+    stroke: COLORS.node.directoryStroke,
+    text: COLORS.node.directoryText,
+  },
+  missing: {
+    fill: COLORS.node.missing,
+    stroke: COLORS.node.missingStroke,
+    text: COLORS.node.missingText,
+  },
+};
+
+const LEAF_LABELS: Record<keyof typeof LEAF_COLORS, string> = {
+  sourceFile: "Referenced file",
+  directory: "Referenced directory",
+  missing: "Missing path",
+};
 
-const getFileType = (fileName: string): FileType => {
-  const lower = fileName.toLowerCase();
-  if (lower === "claude.md") return "CLAUDE.md";
-  if (lower === "agents.md") return "AGENTS.md";
-  if (lower.endsWith(".md")) return "other";
+// File type classification: an instruction-file profile, other markdown, or unknown
+type FileType = ProfileColors | "other" | null;
+
+// Sections are colored like the file they belong to
+const getFileType = (node: GraphNode): FileType => {
+  if (node.type !== "document" && node.type !== "section") return LEAF_COLORS[node.type];
+
+  const path = node.file.path;
+  const profile = getFileProfile(path);
+  if (profile) return profile.colors;
+  if (path.toLowerCase().endsWith(".md")) return "other";
   return null;
 };
 
 // Node styling helpers
-const getNodeRadius = (node: GraphNode): number => {
-  const baseRadius = Math.max(
-    GRAPH.NODE_MIN_RADIUS,
-    Math.sqrt(node.val) * GRAPH.NODE_SIZE_MULTIPLIER
-  );
+// relativeSize: the node's share (0-1) of the largest encoded size, when sizes are encoded
+const getNodeRadius = (node: GraphNode, relativeSize?: number): number => {
+  const baseRadius =
+    relativeSize !== undefined
+      ? GRAPH.NODE_MIN_RADIUS + Math.sqrt(relativeSize) * GRAPH.ENCODED_RADIUS_RANGE
+      : Math.max(GRAPH.NODE_MIN_RADIUS, Math.sqrt(node.val) * GRAPH.NODE_SIZE_MULTIPLIER);
   const extra = node.isRoot
     ? GRAPH.ROOT_NODE_EXTRA_RADIUS
     : GRAPH.NORMAL_NODE_EXTRA_RADIUS;
-  return baseRadius + extra;
+  const radius = baseRadius + extra;
+  return node.type === "section" ? radius * GRAPH.SECTION_RADIUS_SCALE : radius;
 };
 
-const getNodeFillColor = (node: GraphNode, selectedPath?: string): string => {
+const getNodeFillColor = (
+  node: GraphNode,
+  selectedPath?: string,
+  nodeColors?: Map<string, string>
+): string => {
   if (node.id === selectedPath) return COLORS.node.selected;
+  const encodedColor = nodeColors?.get(node.id);
+  if (encodedColor) return encodedColor;
   if (node.isRoot) return COLORS.node.root;
 
-  const fileType = getFileType(node.file.name);
-  if (fileType === "CLAUDE.md" || fileType === "AGENTS.md") {
-    return getNodeColor(fileType, "fill");
-  }
+  const fileType = getFileType(node);
+  if (fileType && fileType !== "other") return fileType.fill;
   if (fileType === "other") return COLORS.node.otherMd;
   return COLORS.node.default;
 };
@@ -50,10 +118,8 @@ const getNodeStrokeColor = (node: GraphNode, selectedPath?: string): string => {
   if (node.id === selectedPath) return COLORS.node.selectedStroke;
   if (node.isRoot) return COLORS.node.rootStroke;
 
-  const fileType = getFileType(node.file.name);
-  if (fileType === "CLAUDE.md" || fileType === "AGENTS.md") {
-    return getNodeColor(fileType, "stroke");
-  }
+  const fileType = getFileType(node);
+  if (fileType && fileType !== "other") return fileType.stroke;
   if (fileType === "other") return COLORS.node.otherMdStroke;
   return COLORS.node.defaultStroke;
 };
@@ -61,14 +127,29 @@ const getNodeStrokeColor = (node: GraphNode, selectedPath?: string): string => {
 const getNodeTextColor = (node: GraphNode): string => {
   if (node.isRoot) return COLORS.node.rootText;
 
-  const fileType = getFileType(node.file.name);
-  if (fileType === "CLAUDE.md" || fileType === "AGENTS.md") {
-    return getNodeColor(fileType, "text");
-  }
+  const fileType = getFileType(node);
+  if (fileType && fileType !== "other") return fileType.text;
   if (fileType === "other") return COLORS.node.otherMdText;
   return COLORS.node.defaultText;
 };
 
+// Link styling helpers
+const getLinkStyle = (link: GraphLink): { color: string; dash?: string } | undefined => {
+  if (link.inheritance) return INHERITANCE_STYLES[link.inheritance];
+  if (link.contains) return { color: COLORS.link.section };
+  const style = LINK_STYLES.find((s) => link.kinds.includes(s.kind));
+  // Bridges between ecosystems keep their dash pattern but stand out in color
+  return link.bridge ? { color: COLORS.link.bridge, dash: style?.dash } : style;
+};
+
+const getLinkWidth = (link: GraphLink): number =>
+  Math.min(
+    GRAPH.LINK_WIDTH +
+      Math.max(link.count - 1, 0) * GRAPH.LINK_WIDTH_PER_REFERENCE +
+      (link.bridge ? GRAPH.BRIDGE_EXTRA_WIDTH : 0),
+    GRAPH.LINK_MAX_WIDTH
+  );
+
 // Calculate force simulation parameters based on container size and node count
 const calculateSimulationParams = (
   width: number,
@@ -131,13 +212,28 @@ export const GraphView: React.FC<GraphViewProps> = ({
   nodes,
   links,
   onNodeClick,
+  onSectionClick,
+  onNodeToggle,
   selectedPath,
   activeMode,
+  nodeSizes,
+  nodeColors,
+  colorLegend,
+  nodeBadges,
+  highlightedFiles,
+  linkColors,
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
   const nodesRef = useRef<GraphNode[]>(nodes);
+  // Last known positions by node ID, so rebuilt graphs keep their layout
+  const positionsRef = useRef(new Map<string, { x: number; y: number }>());
+  const [hoveredLink, setHoveredLink] = useState<{
+    link: GraphLink;
+    x: number;
+    y: number;
+  } | null>(null);
 
   const dimensions = useContainerDimensions(wrapperRef);
 
@@ -189,6 +285,17 @@ export const GraphView: React.FC<GraphViewProps> = ({
     const { width, height } = dimensions;
     const params = calculateSimulationParams(width, height, nodes.length);
 
+    // Seed new node objects with the positions of their previous instances
+    let reusedCount = 0;
+    for (const n of nodes) {
+      const previous = positionsRef.current.get(n.id);
+      if (n.x === undefined && previous) {
+        n.x = previous.x;
+        n.y = previous.y;
+      }
+      if (n.x !== undefined) reusedCount += 1;
+    }
+
     // Setup zoom behavior
     const g = svg.append("g");
     const zoom = d3
@@ -198,7 +305,8 @@ export const GraphView: React.FC<GraphViewProps> = ({
         g.attr("transform", event.transform);
       });
 
-    svg.call(zoom);
+    // Double-clicks toggle sections instead of zooming
+    svg.call(zoom).on("dblclick.zoom", null);
     zoomRef.current = zoom;
 
     // Create force simulation
@@ -231,7 +339,24 @@ export const GraphView: React.FC<GraphViewProps> = ({
       .force("x", d3.forceX(width / 2).strength(GRAPH.CENTER_FORCE_STRENGTH))
       .force("y", d3.forceY(height / 2).strength(GRAPH.CENTER_FORCE_STRENGTH));
 
-    // Draw links
+    // Settle gently when the layout is already known
+    if (nodes.length > 0 && reusedCount === nodes.length) {
+      simulation.alpha(GRAPH.REUSED_LAYOUT_ALPHA);
+    }
+
+    // With highlighted files, only the references among them stand out
+    const isHighlightedLink = (d: GraphLink): boolean =>
+      !d.inheritance &&
+      !d.contains &&
+      highlightedFiles!.has((d.source as GraphNode).file.path) &&
+      highlightedFiles!.has((d.target as GraphNode).file.path);
+    const getLinkOpacity = (d: GraphLink, hovered?: GraphLink): number => {
+      if (d === hovered) return GRAPH.LINK_HOVER_OPACITY;
+      if (!highlightedFiles) return GRAPH.LINK_OPACITY;
+      return isHighlightedLink(d) ? GRAPH.LINK_HOVER_OPACITY : GRAPH.DIMMED_LINK_OPACITY;
+    };
+
+    // Draw links, styled by reference kind and scaled by reference count
     const link = g
       .append("g")
       .attr("class", "links")
@@ -239,10 +364,40 @@ export const GraphView: React.FC<GraphViewProps> = ({
       .data(links)
       .enter()
       .append("line")
-      .attr("stroke", COLORS.link.stroke)
-      .attr("stroke-opacity", GRAPH.LINK_OPACITY)
-      .attr("stroke-width", GRAPH.LINK_WIDTH)
-      .attr("marker-end", "url(#arrowhead)");
+      .attr("stroke", (d) => {
+        if (highlightedFiles && isHighlightedLink(d)) return COLORS.link.cycle;
+        const encodedColor = linkColors?.get(
+          `${(d.source as GraphNode).id}->${(d.target as GraphNode).id}`
+        );
+        return encodedColor ?? getLinkStyle(d)?.color ?? COLORS.link.stroke;
+      })
+      .attr("stroke-opacity", (d) => getLinkOpacity(d))
+      .attr("stroke-width", getLinkWidth)
+      .attr("stroke-dasharray", (d) => getLinkStyle(d)?.dash ?? null)
+      .attr("marker-end", (d) =>
+        d.contains || (highlightedFiles && !isHighlightedLink(d)) ? null : "url(#arrowhead)"
+      );
+
+    // Wider transparent lines on top make thin links easy to hover
+    const linkHitArea = g
+      .append("g")
+      .attr("class", "link-hit-areas")
+      .selectAll("line")
+      .data(links)
+      .enter()
+      .append("line")
+      .attr("stroke", "transparent")
+      .attr("stroke-width", GRAPH.LINK_HIT_WIDTH)
+      .style("cursor", "help")
+      .on("mouseenter mousemove", (event, d) => {
+        const [x, y] = d3.pointer(event, wrapperRef.current);
+        setHoveredLink({ link: d, x, y });
+        link.attr("stroke-opacity", (l) => getLinkOpacity(l, d));
+      })
+      .on("mouseleave", () => {
+        setHoveredLink(null);
+        link.attr("stroke-opacity", (l) => getLinkOpacity(l));
+      });
 
     // Arrowhead marker definition
     svg
@@ -278,6 +433,7 @@ export const GraphView: React.FC<GraphViewProps> = ({
     };
 
     // Draw nodes
+    const maxSize = nodeSizes ? Math.max(0, ...nodeSizes.values()) : 0;
     const node = g
       .append("g")
       .attr("class", "nodes")
@@ -285,6 +441,9 @@ export const GraphView: React.FC<GraphViewProps> = ({
       .data(nodes)
       .enter()
       .append("g")
+      .attr("opacity", (d) =>
+        highlightedFiles && !highlightedFiles.has(d.file.path) ? GRAPH.DIMMED_NODE_OPACITY : 1
+      )
       .call(
         d3
           .drag<SVGGElement, GraphNode>()
@@ -293,21 +452,47 @@ export const GraphView: React.FC<GraphViewProps> = ({
           .on("end", dragended)
       )
       .on("click", (event, d) => {
-        onNodeClick(d.file);
+        // Leaf nodes have no content to open
+        if (d.type === "section" && d.section && onSectionClick) {
+          onSectionClick(d.file, d.section);
+        } else if (d.type === "document" || d.type === "section") {
+          onNodeClick(d.file);
+        }
+        event.stopPropagation();
+      })
+      .on("dblclick", (event, d) => {
+        if (d.type === "document" || d.type === "section") onNodeToggle?.(d.file.path);
         event.stopPropagation();
       });
 
+    const radiusOf = (d: GraphNode) =>
+      getNodeRadius(d, nodeSizes && (maxSize > 0 ? (nodeSizes.get(d.id) ?? 0) / maxSize : 0));
+
     // Node circles
     node
       .append("circle")
-      .attr("r", getNodeRadius)
-      .attr("fill", (d) => getNodeFillColor(d, selectedPath))
+      .attr("r", radiusOf)
+      .attr("fill", (d) => getNodeFillColor(d, selectedPath, nodeColors))
       .attr("stroke", (d) => getNodeStrokeColor(d, selectedPath))
       .attr("stroke-width", (d) =>
         d.isRoot ? GRAPH.ROOT_STROKE_WIDTH : GRAPH.NORMAL_STROKE_WIDTH
       )
       .attr("class", "cursor-pointer hover:opacity-80 transition-opacity");
 
+    // Lint severity badges
+    if (nodeBadges) {
+      node
+        .filter((d) => d.type === "document" && nodeBadges.has(d.id))
+        .append("circle")
+        .attr("cx", (d) => radiusOf(d) * Math.SQRT1_2)
+        .attr("cy", (d) => -radiusOf(d) * Math.SQRT1_2)
+        .attr("r", GRAPH.BADGE_RADIUS)
+        .attr("fill", (d) => COLORS.severity[nodeBadges.get(d.id)!])
+        .attr("stroke", COLORS.ui.background)
+        .attr("stroke-width", 1.5)
+        .style("pointer-events", "none");
+    }
+
     // Node labels
     node
       .append("text")
@@ -326,11 +511,13 @@ export const GraphView: React.FC<GraphViewProps> = ({
 
     // Simulation tick handler
     simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
+      for (const lines of [link, linkHitArea]) {
+        lines
+          .attr("x1", (d: any) => d.source.x)
+          .attr("y1", (d: any) => d.source.y)
+          .attr("x2", (d: any) => d.target.x)
+          .attr("y2", (d: any) => d.target.y);
+      }
 
       node.attr("transform", (d: any) => `translate(${d.x},${d.y})`);
     });
@@ -338,37 +525,163 @@ export const GraphView: React.FC<GraphViewProps> = ({
     // Cleanup
     return () => {
       simulation.stop();
+      setHoveredLink(null);
+      for (const n of nodes) {
+        if (n.x !== undefined && n.y !== undefined) {
+          positionsRef.current.set(n.id, { x: n.x, y: n.y });
+        }
+      }
     };
-  }, [nodes, links, dimensions, onNodeClick, selectedPath, activeMode]);
+  }, [
+    nodes,
+    links,
+    dimensions,
+    onNodeClick,
+    onSectionClick,
+    onNodeToggle,
+    selectedPath,
+    activeMode,
+    nodeSizes,
+    nodeColors,
+    nodeBadges,
+    highlightedFiles,
+    linkColors,
+  ]);
 
   return (
     <div ref={wrapperRef} className="w-full h-full relative overflow-hidden">
       {/* Legend */}
-      <GraphLegend />
+      <GraphLegend
+        nodes={nodes}
+        links={links}
+        colorLegend={colorLegend}
+        canSplit={onNodeToggle !== undefined}
+      />
       <svg
         ref={svgRef}
         width={dimensions.width}
         height={dimensions.height}
         className="block w-full h-full"
       />
+      {hoveredLink && (
+        <LinkTooltip link={hoveredLink.link} x={hoveredLink.x} y={hoveredLink.y} />
+      )}
     </div>
   );
 };
 
 // Legend component
-const GraphLegend: React.FC = () => (
+const GraphLegend: React.FC<{
+  nodes: GraphNode[];
+  links: GraphLink[];
+  colorLegend?: { label: string; color: string }[];
+  /** Whether documents can be split into sections */
+  canSplit: boolean;
+}> = ({ nodes, links, colorLegend, canSplit }) => (
   <div className="absolute top-4 right-4 z-10 bg-gray-900/80 p-3 rounded-lg border border-gray-700 backdrop-blur-sm flex flex-col gap-2 shadow-2xl">
     <div className="text-[10px] uppercase text-gray-500 font-bold mb-1">
       Graph Legend
     </div>
+    {colorLegend && (
+      <div className="mb-1 border-b border-gray-800 pb-2 flex flex-col gap-1.5">
+        {colorLegend.map((entry) => (
+          <div key={entry.label} className="flex items-center gap-2">
+            <span className="rounded-full w-3 h-3" style={{ backgroundColor: entry.color }} />
+            <span className="text-xs text-gray-300">{entry.label}</span>
+          </div>
+        ))}
+      </div>
+    )}
     <LegendItem color="bg-amber-500" borderColor="border-amber-400" label="Root File" textColor="text-amber-300" large />
-    <LegendItem color="bg-pink-500" label="CLAUDE.md" textColor="text-pink-300" />
-    <LegendItem color="bg-purple-500" label="AGENTS.md" textColor="text-purple-300" />
+    {PROFILES.filter((profile) => !("combines" in profile)).map((profile) => (
+      <div key={profile.id} className="flex items-center gap-2">
+        <span
+          className="rounded-full w-3 h-3"
+          style={{ backgroundColor: profile.colors.fill }}
+        />
+        <span className="text-xs" style={{ color: profile.colors.text }}>
+          {profile.label}
+        </span>
+      </div>
+    ))}
     <LegendItem color="bg-cyan-500" label="Other .md" textColor="text-cyan-300" />
+    {(Object.keys(LEAF_COLORS) as (keyof typeof LEAF_COLORS)[])
+      .filter((type) => nodes.some((node) => node.type === type))
+      .map((type) => (
+        <div key={type} className="flex items-center gap-2">
+          <span
+            className="rounded-full w-3 h-3 border"
+            style={{ backgroundColor: LEAF_COLORS[type].fill, borderColor: LEAF_COLORS[type].stroke }}
+          />
+          <span className="text-xs" style={{ color: LEAF_COLORS[type].text }}>
+            {LEAF_LABELS[type]}
+          </span>
+        </div>
+      ))}
+    <div className="mt-1 border-t border-gray-800 pt-2 flex flex-col gap-1.5">
+      {LINK_STYLES.map((style) => (
+        <div key={style.kind} className="flex items-center gap-2">
+          <svg width="18" height="6" className="shrink-0">
+            <line
+              x1="0"
+              y1="3"
+              x2="18"
+              y2="3"
+              stroke={style.color}
+              strokeWidth="2"
+              strokeDasharray={style.dash}
+            />
+          </svg>
+          <span className="text-xs text-gray-400">{style.label}</span>
+        </div>
+      ))}
+      {(Object.keys(INHERITANCE_STYLES) as InheritanceKind[])
+        .filter((kind) => links.some((link) => link.inheritance === kind))
+        .map((kind) => (
+          <div key={kind} className="flex items-center gap-2">
+            <svg width="18" height="6" className="shrink-0">
+              <line
+                x1="0"
+                y1="3"
+                x2="18"
+                y2="3"
+                stroke={INHERITANCE_STYLES[kind].color}
+                strokeWidth="2"
+                strokeDasharray={INHERITANCE_STYLES[kind].dash}
+              />
+            </svg>
+            <span className="text-xs text-gray-400">{INHERITANCE_STYLES[kind].label}</span>
+          </div>
+        ))}
+      {links.some((link) => link.bridge) && (
+        <div className="flex items-center gap-2">
+          <svg width="18" height="6" className="shrink-0">
+            <line x1="0" y1="3" x2="18" y2="3" stroke={COLORS.link.bridge} strokeWidth="3" />
+          </svg>
+          <span className="text-xs text-gray-400">Bridge between ecosystems</span>
+        </div>
+      )}
+      {links.some((link) => link.contains) && (
+        <div className="flex items-center gap-2">
+          <svg width="18" height="6" className="shrink-0">
+            <line x1="0" y1="3" x2="18" y2="3" stroke={COLORS.link.section} strokeWidth="2" />
+          </svg>
+          <span className="text-xs text-gray-400">Section of file</span>
+        </div>
+      )}
+    </div>
     <div className="mt-2 text-[10px] text-gray-500">
       Drag nodes to rearrange
       <br />
       Scroll to zoom
+      <br />
+      Hover a link for its references
+      {canSplit && (
+        <>
+          <br />
+          Double-click a file to split it by heading
+        </>
+      )}
     </div>
   </div>
 );
@@ -398,3 +711,56 @@ const LegendItem: React.FC<LegendItemProps> = ({
     <span className={`text-xs ${textColor}`}>{label}</span>
   </div>
 );
+
+// Tooltip listing the source lines behind a hovered link
+const LinkTooltip: React.FC<{ link: GraphLink; x: number; y: number }> = ({
+  link,
+  x,
+  y,
+}) => {
+  const source = link.source as GraphNode;
+  const target = link.target as GraphNode;
+  const lines = source.file.content?.split("\n") ?? [];
+
+  return (
+    <div
+      className="absolute z-20 max-w-md pointer-events-none bg-gray-900/95 border border-gray-700 rounded-lg shadow-2xl p-3 text-xs"
+      style={{ left: x + 12, top: y + 12 }}
+    >
+      <div className="font-mono text-gray-300 mb-2 truncate">
+        {source.name} → {target.name}
+        {!link.inheritance && !link.contains && (
+          <span className="text-gray-500 ml-2">
+            {link.count} reference{link.count === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+      {link.inheritance && (
+        <p style={{ color: INHERITANCE_STYLES[link.inheritance].color }}>
+          {link.inheritance === "inherits"
+            ? "Loaded together: the enclosing directory's file applies here too"
+            : "Nearest file wins: this file replaces the enclosing directory's file"}
+        </p>
+      )}
+      {link.contains && <p className="text-gray-400">Heading section of this file</p>}
+      <ul className="space-y-1">
+        {link.occurrences.map((occurrence) => {
+          const style = LINK_STYLES.find((s) => s.kind === occurrence.kind);
+          return (
+            <li key={`${occurrence.line}:${occurrence.column}`} className="flex gap-2 font-mono">
+              <span className="text-gray-500 shrink-0">L{occurrence.line}</span>
+              <span className="truncate" style={{ color: style?.color }}>
+                {lines[occurrence.line - 1]?.trim() ?? occurrence.raw}
+              </span>
+              {occurrence.caseMismatch && (
+                <span className="shrink-0 text-amber-400" title="Breaks on case-sensitive file systems">
+                  case differs
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,13 +1,59 @@
-import React from "react";
+import React, { useEffect, useMemo, useRef } from "react";
 import Markdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { AgentFile } from "../types";
+import type { Root, Text } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { visit } from "unist-util-visit";
+import { isExternalLink, isHomeLink } from "../services/referenceExtractor";
+import { parseFrontmatter } from "../services/frontmatter";
+import { createSlugger } from "../services/sections";
+import { AgentFile, FrontmatterData, MarkdownReference, ReferenceKind } from "../types";
 
 interface MarkdownViewerProps {
 	file: AgentFile | null;
+	/** References extracted from the file, highlighted in the rendered content */
+	references?: MarkdownReference[];
+	/** Heading to scroll to, by slug (a new object scrolls again) */
+	scrollTarget?: { slug: string } | null;
 }
 
-export const MarkdownViewer: React.FC<MarkdownViewerProps> = ({ file }) => {
+const NO_REFERENCES: MarkdownReference[] = [];
+
+export const MarkdownViewer: React.FC<MarkdownViewerProps> = ({
+	file,
+	references = NO_REFERENCES,
+	scrollTarget,
+}) => {
+	const scrollRef = useRef<HTMLDivElement>(null);
+	// frontmatter 单独显示为元数据卡片，正文从其后开始渲染
+	const frontmatter = useMemo(() => parseFrontmatter(file?.content ?? ""), [file?.content]);
+	const bodyOffset = frontmatter?.bodyOffset ?? 0;
+	const content = (file?.content ?? "").slice(bodyOffset);
+	const bodyReferences = useMemo(
+		() =>
+			bodyOffset === 0
+				? references
+				: references
+						.filter((ref) => ref.offset >= bodyOffset)
+						.map((ref) => ({ ...ref, offset: ref.offset - bodyOffset })),
+		[references, bodyOffset]
+	);
+	const remarkPlugins = useMemo(
+		() => [remarkGfm, remarkHighlightReferences(content, bodyReferences), remarkHeadingIds],
+		[content, bodyReferences]
+	);
+
+	// 滚动到图谱中点击的章节标题
+	useEffect(() => {
+		if (!scrollTarget || !content) return;
+		const heading = scrollRef.current?.querySelector(`[id="${CSS.escape(scrollTarget.slug)}"]`);
+		heading?.scrollIntoView({ behavior: "smooth", block: "start" });
+	}, [scrollTarget, content]);
+	const externalLinks = useMemo(
+		() => references.filter((ref) => isExternalLink(ref.link) || isHomeLink(ref.link)),
+		[references]
+	);
+
 	if (!file) {
 		return (
 			<div className="h-full flex flex-col items-center justify-center text-gray-500">
@@ -29,8 +75,37 @@ export const MarkdownViewer: React.FC<MarkdownViewerProps> = ({ file }) => {
 					{file.name}
 				</h2>
 				<p className="text-xs text-gray-400 mt-1 font-mono">{file.path}</p>
+				{externalLinks.length > 0 && (
+					<details className="mt-2 text-xs text-gray-400">
+						<summary className="cursor-pointer select-none hover:text-gray-200">
+							{externalLinks.length} external link{externalLinks.length === 1 ? "" : "s"}
+						</summary>
+						<ul className="mt-1 space-y-0.5 max-h-32 overflow-y-auto font-mono">
+							{externalLinks.map((ref) => (
+								<li key={ref.offset} className="truncate">
+									<span className="text-gray-600 mr-2">L{ref.line}</span>
+									{/* 主目录路径无法在浏览器中打开 */}
+									{isHomeLink(ref.link) ? (
+										<span className="text-gray-300" title="Outside the repository, in the user's home directory">
+											{ref.link.replace(/^@/, "")}
+										</span>
+									) : (
+										<a
+											href={ref.link}
+											target="_blank"
+											rel="noreferrer"
+											className="text-blue-400 hover:underline"
+										>
+											{ref.link}
+										</a>
+									)}
+								</li>
+							))}
+						</ul>
+					</details>
+				)}
 			</div>
-			<div className="flex-1 overflow-y-auto p-6">
+			<div ref={scrollRef} className="flex-1 overflow-y-auto p-6">
 				{!file.content ? (
 					<div className="flex flex-col items-center justify-center h-full text-gray-500">
 						<div className="flex items-center space-x-3">
@@ -40,71 +115,108 @@ export const MarkdownViewer: React.FC<MarkdownViewerProps> = ({ file }) => {
 						<p className="text-sm mt-2 text-gray-600">{file.path}</p>
 					</div>
 				) : (
-					<article className="prose prose-invert prose-sm max-w-none prose-headings:text-blue-300 prose-a:text-blue-400 prose-code:text-orange-300 prose-code:bg-gray-800 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-code:before:content-none prose-code:after:content-none prose-pre:bg-gray-800 prose-pre:border prose-pre:border-gray-700 prose-blockquote:border-blue-500 prose-blockquote:bg-gray-800/50 prose-blockquote:py-1 prose-strong:text-gray-200 prose-li:marker:text-gray-500">
-						<Markdown
-							remarkPlugins={[remarkGfm]}
-							components={{
-								// 高亮 @path 引用
-								p: ({ children, ...props }) => (
-									<p {...props}>{highlightReferences(children)}</p>
-								),
-								li: ({ children, ...props }) => (
-									<li {...props}>{highlightReferences(children)}</li>
-								),
-								td: ({ children, ...props }) => (
-									<td {...props}>{highlightReferences(children)}</td>
-								),
-							}}
-						>
-							{file.content}
-						</Markdown>
-					</article>
+					<>
+						{frontmatter && Object.keys(frontmatter.data).length > 0 && (
+							<FrontmatterCard data={frontmatter.data} />
+						)}
+						<article className="prose prose-invert prose-sm max-w-none prose-headings:text-blue-300 prose-a:text-blue-400 prose-code:text-orange-300 prose-code:bg-gray-800 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-code:before:content-none prose-code:after:content-none prose-pre:bg-gray-800 prose-pre:border prose-pre:border-gray-700 prose-blockquote:border-blue-500 prose-blockquote:bg-gray-800/50 prose-blockquote:py-1 prose-strong:text-gray-200 prose-li:marker:text-gray-500">
+							<Markdown remarkPlugins={remarkPlugins}>
+								{content}
+							</Markdown>
+						</article>
+					</>
 				)}
 			</div>
 		</div>
 	);
 };
 
-// 高亮 @path 和 [[wiki]] 引用
-function highlightReferences(children: React.ReactNode): React.ReactNode {
-	if (typeof children === "string") {
-		const parts = children.split(/(\[\[.*?\]\]|@[a-zA-Z0-9_\-\.\/]+)/g);
-		if (parts.length === 1) return children;
+// frontmatter 元数据卡片：列表值显示为标签
+const FrontmatterCard: React.FC<{ data: FrontmatterData }> = ({ data }) => (
+	<dl className="mb-6 grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1.5 rounded-lg border border-gray-700 bg-gray-800/50 px-4 py-3 text-xs">
+		{Object.entries(data).map(([key, value]) => (
+			<React.Fragment key={key}>
+				<dt className="font-mono text-gray-500">{key}</dt>
+				<dd className="text-gray-200 whitespace-pre-wrap break-words">
+					{Array.isArray(value) ? (
+						<span className="flex flex-wrap gap-1">
+							{value.map((item, i) => (
+								<span
+									key={i}
+									className="px-1.5 rounded bg-gray-700/60 border border-gray-600 font-mono text-gray-300"
+								>
+									{item}
+								</span>
+							))}
+						</span>
+					) : (
+						value
+					)}
+				</dd>
+			</React.Fragment>
+		))}
+	</dl>
+);
 
-		return parts.map((part, i) => {
-			if (part.startsWith("[[") && part.endsWith("]]")) {
-				const content = part.slice(2, -2);
-				return (
-					<span
-						key={i}
-						className="text-blue-400 font-medium bg-blue-900/30 px-1 rounded cursor-default border border-blue-800/50 not-prose"
-					>
-						[[{content}]]
-					</span>
-				);
-			} else if (part.startsWith("@")) {
-				return (
-					<span
-						key={i}
-						className="text-emerald-400 font-medium bg-emerald-900/30 px-1 rounded cursor-default border border-emerald-800/50 not-prose"
-					>
-						{part}
-					</span>
-				);
+// remark 插件：为标题添加与章节节点相同的 GitHub 风格锚点 id
+const remarkHeadingIds = () => (tree: Root) => {
+	const slug = createSlugger();
+	visit(tree, "heading", (node) => {
+		node.data = { ...node.data, hProperties: { ...node.data?.hProperties, id: slug(toString(node)) } };
+	});
+};
+
+// 引用高亮样式（按引用类型）
+const REFERENCE_CLASSES: Record<ReferenceKind, string> = {
+	wiki: "text-blue-400 font-medium bg-blue-900/30 px-1 rounded cursor-default border border-blue-800/50 not-prose",
+	atImport: "text-emerald-400 font-medium bg-emerald-900/30 px-1 rounded cursor-default border border-emerald-800/50 not-prose",
+	markdownLink: "text-blue-400 font-medium bg-blue-900/30 px-1 rounded cursor-default border border-blue-800/50 not-prose",
+	backtickPath: "text-emerald-400 font-medium bg-emerald-900/30 px-1 rounded cursor-default border border-emerald-800/50 not-prose",
+	custom: "text-amber-400 font-medium bg-amber-900/30 px-1 rounded cursor-default border border-amber-800/50 not-prose",
+};
+
+// remark 插件：按引用位置拆分文本节点并标记高亮，与图谱使用相同的引用解析结果
+const remarkHighlightReferences =
+	(content: string, references: MarkdownReference[]) => () => (tree: Root) => {
+		const within = (start: number, end: number) =>
+			references.filter((ref) => ref.offset >= start && ref.offset + ref.raw.length <= end);
+
+		visit(tree, (node, index, parent) => {
+			const start = node.position?.start.offset;
+			const end = node.position?.end.offset;
+			if (start === undefined || end === undefined) return;
+
+			if (node.type === "inlineCode") {
+				const [ref] = within(start, end);
+				if (ref) {
+					node.data = { ...node.data, hProperties: { className: REFERENCE_CLASSES[ref.kind] } };
+				}
+				return;
 			}
-			return part;
-		});
-	}
 
-	if (Array.isArray(children)) {
-		return children.map((child, i) => (
-			<React.Fragment key={i}>{highlightReferences(child)}</React.Fragment>
-		));
-	}
+			// 文本含转义字符时偏移量无法对应，跳过
+			if (node.type !== "text" || !parent || index === undefined) return;
+			const refs = within(start, end);
+			if (refs.length === 0 || content.slice(start, end) !== node.value) return;
 
-	if (React.isValidElement(children)) {
-		return children;
-	}
+			const parts: Text[] = [];
+			let cursor = start;
+			for (const ref of refs) {
+				if (ref.offset > cursor) {
+					parts.push({ type: "text", value: content.slice(cursor, ref.offset) });
+				}
+				parts.push({
+					type: "text",
+					value: ref.raw,
+					data: { hName: "span", hProperties: { className: REFERENCE_CLASSES[ref.kind] } },
+				});
+				cursor = ref.offset + ref.raw.length;
+			}
+			if (cursor < end) {
+				parts.push({ type: "text", value: content.slice(cursor, end) });
+			}
 
-	return children;
-}
+			parent.children.splice(index, 1, ...parts);
+			return index + parts.length;
+		});
+	};
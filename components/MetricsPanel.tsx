@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { formatGraphMetric } from "../services/graphMetrics";
+import { AgentFile, GraphMetric, GraphMetrics, GraphNode } from "../types";
+
+interface MetricsPanelProps {
+  nodes: GraphNode[];
+  metrics: Map<string, GraphMetrics>;
+  onFileSelect: (file: AgentFile) => void;
+  selectedPath?: string;
+}
+
+type SortKey = "path" | GraphMetric;
+
+const COLUMNS: { key: SortKey; label: string; title: string }[] = [
+  { key: "path", label: "File", title: "File or referenced path" },
+  { key: "inDegree", label: "In", title: "Files that reference this one" },
+  { key: "outDegree", label: "Out", title: "Files this one references" },
+  { key: "depth", label: "Depth", title: "Fewest references from a root file (— when unreachable)" },
+  { key: "fanOut", label: "Fan-out", title: "Files reachable from this one, transitively" },
+  {
+    key: "betweenness",
+    label: "Betweenness",
+    title: "Share of shortest paths between other files that pass through this one",
+  },
+];
+
+// Sortable table of degree, depth, fan-out and centrality, to find the hub files
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({
+  nodes,
+  metrics,
+  onFileSelect,
+  selectedPath,
+}) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "fanOut",
+    descending: true,
+  });
+
+  const rows = useMemo(() => {
+    // Sections share their file's metrics, so only files and referenced paths get rows
+    const measured = nodes.flatMap((node) => {
+      const metric = node.type === "section" ? undefined : metrics.get(node.id);
+      return metric ? [{ node, metric }] : [];
+    });
+
+    return measured.sort((a, b) => {
+      let order: number;
+      if (sort.key === "path") {
+        order = a.node.id.localeCompare(b.node.id);
+      } else {
+        // Unreachable files sort after every depth
+        const valueA = a.metric[sort.key] ?? Infinity;
+        const valueB = b.metric[sort.key] ?? Infinity;
+        order = valueA === valueB ? 0 : valueA < valueB ? -1 : 1;
+      }
+      return sort.descending ? -order : order;
+    });
+  }, [nodes, metrics, sort]);
+
+  const unreachableCount = rows.filter(({ metric }) => !metric.reachable).length;
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) =>
+      prev.key === key ? { key, descending: !prev.descending } : { key, descending: key !== "path" }
+    );
+
+  return (
+    <div className="h-full flex flex-col text-xs">
+      <div className="flex items-center gap-4 px-3 py-2 border-b border-gray-800 shrink-0 text-gray-500">
+        <span>{rows.length} files</span>
+        <span className="ml-auto">{unreachableCount} not reachable from a root file</span>
+      </div>
+      <div className="flex-1 overflow-y-auto">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-gray-950 text-gray-500">
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  title={column.title}
+                  onClick={() => toggleSort(column.key)}
+                  className={`px-3 py-1.5 font-medium cursor-pointer select-none hover:text-gray-300 ${
+                    column.key === "path" ? "text-left" : "text-right"
+                  }`}
+                >
+                  <span className="inline-flex items-center gap-1">
+                    {column.label}
+                    {sort.key === column.key &&
+                      (sort.descending ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {rows.map(({ node, metric }) => {
+              const isDocument = node.type === "document";
+              return (
+                <tr
+                  key={node.id}
+                  onClick={() => isDocument && onFileSelect(node.file)}
+                  className={`border-t border-gray-800/60 ${isDocument ? "cursor-pointer" : ""} ${
+                    node.id === selectedPath ? "bg-blue-900/30" : "hover:bg-gray-800/60"
+                  }`}
+                >
+                  <td
+                    className={`px-3 py-1 truncate max-w-xs ${
+                      isDocument ? "text-gray-200" : "text-gray-500"
+                    }`}
+                  >
+                    {node.id}
+                  </td>
+                  <td className="px-3 py-1 text-right text-gray-300">{metric.inDegree}</td>
+                  <td className="px-3 py-1 text-right text-gray-300">{metric.outDegree}</td>
+                  <td
+                    className={`px-3 py-1 text-right ${
+                      metric.reachable ? "text-gray-400" : "text-red-400"
+                    }`}
+                  >
+                    {formatGraphMetric("depth", metric.depth)}
+                  </td>
+                  <td className="px-3 py-1 text-right text-gray-200 font-bold">{metric.fanOut}</td>
+                  <td className="px-3 py-1 text-right text-gray-300">
+                    {formatGraphMetric("betweenness", metric.betweenness)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
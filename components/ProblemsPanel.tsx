@@ -0,0 +1,59 @@
+import React from "react";
+import { CircleX, TriangleAlert, Info } from "lucide-react";
+import { LintProblem, LintSeverity } from "../types";
+import { COLORS } from "../constants";
+
+interface ProblemsPanelProps {
+  problems: LintProblem[];
+  onProblemSelect: (problem: LintProblem) => void;
+  selectedPath?: string;
+}
+
+const SEVERITY_ICONS: Record<LintSeverity, typeof Info> = {
+  error: CircleX,
+  warning: TriangleAlert,
+  info: Info,
+};
+
+// Lint problems of the loaded files, one row per problem
+export const ProblemsPanel: React.FC<ProblemsPanelProps> = ({
+  problems,
+  onProblemSelect,
+  selectedPath,
+}) => {
+  if (problems.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-xs text-gray-500">
+        No problems found.
+      </div>
+    );
+  }
+
+  return (
+    <ul className="h-full overflow-y-auto text-xs divide-y divide-gray-800/60">
+      {problems.map((problem, index) => {
+        const Icon = SEVERITY_ICONS[problem.severity];
+        const location = problem.line ? `${problem.file}:${problem.line}` : problem.file;
+
+        return (
+          <li
+            key={`${problem.rule}:${location}:${problem.column ?? 0}:${index}`}
+            onClick={() => onProblemSelect(problem)}
+            className={`flex items-center gap-3 px-3 py-1.5 cursor-pointer transition-colors ${
+              problem.file === selectedPath ? "bg-blue-900/20" : "hover:bg-gray-800/60"
+            }`}
+          >
+            <Icon size={14} className="shrink-0" style={{ color: COLORS.severity[problem.severity] }} />
+            <span className="font-mono text-gray-200 w-56 truncate shrink-0" title={location}>
+              {location}
+            </span>
+            <span className="text-gray-300 truncate" title={problem.message}>
+              {problem.message}
+            </span>
+            <span className="ml-auto font-mono text-gray-500 shrink-0">{problem.rule}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
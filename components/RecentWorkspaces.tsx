@@ -0,0 +1,131 @@
+import React, { useEffect, useRef, useState } from "react";
+import { History, FolderClock, X } from "lucide-react";
+import { WorkspaceRecord } from "../services/workspaceStore";
+
+interface RecentWorkspacesProps {
+  workspaces: WorkspaceRecord[];
+  onOpen: (workspace: WorkspaceRecord) => void;
+  onRemove: (workspace: WorkspaceRecord) => void;
+  disabled?: boolean;
+}
+
+// Format a timestamp as a short relative time (e.g., "5m ago")
+const formatRelativeTime = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+// Single workspace row shared by the menu and the list
+const WorkspaceItem: React.FC<{
+  workspace: WorkspaceRecord;
+  onOpen: (workspace: WorkspaceRecord) => void;
+  onRemove: (workspace: WorkspaceRecord) => void;
+  disabled?: boolean;
+}> = ({ workspace, onOpen, onRemove, disabled }) => (
+  <div className="group flex items-center justify-between px-3 py-2 hover:bg-gray-800 rounded transition-colors">
+    <button
+      onClick={() => onOpen(workspace)}
+      disabled={disabled}
+      className="flex-1 flex items-center space-x-2 text-left cursor-pointer disabled:cursor-not-allowed min-w-0"
+    >
+      <FolderClock size={14} className="text-blue-400 shrink-0" />
+      <span className="text-sm text-gray-200 truncate">{workspace.name}</span>
+      <span className="text-[10px] text-gray-500 shrink-0">
+        {formatRelativeTime(workspace.lastOpened)}
+      </span>
+    </button>
+    <button
+      onClick={() => onRemove(workspace)}
+      title="Forget workspace"
+      className="ml-2 p-0.5 text-gray-600 hover:text-gray-300 opacity-0 group-hover:opacity-100 cursor-pointer transition-opacity"
+    >
+      <X size={12} />
+    </button>
+  </div>
+);
+
+// Header dropdown listing recent workspaces
+export const RecentWorkspacesMenu: React.FC<RecentWorkspacesProps> = ({
+  workspaces,
+  onOpen,
+  onRemove,
+  disabled,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  if (workspaces.length === 0) return null;
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center space-x-2 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-gray-200 border border-gray-700 rounded text-sm font-medium cursor-pointer transition-colors"
+      >
+        <History size={14} />
+        <span>Recent</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl p-1 z-30">
+          <div className="px-3 py-1.5 text-[10px] uppercase text-gray-500 font-bold">
+            Recent Workspaces
+          </div>
+          {workspaces.map((workspace) => (
+            <WorkspaceItem
+              key={workspace.id}
+              workspace={workspace}
+              onOpen={(w) => {
+                setIsOpen(false);
+                onOpen(w);
+              }}
+              onRemove={onRemove}
+              disabled={disabled}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Inline list of recent workspaces for the empty state
+export const RecentWorkspacesList: React.FC<RecentWorkspacesProps> = ({
+  workspaces,
+  onOpen,
+  onRemove,
+  disabled,
+}) => {
+  if (workspaces.length === 0) return null;
+
+  return (
+    <div className="mt-6 text-left bg-gray-900/80 border border-gray-800 rounded-lg p-1">
+      <div className="px-3 py-1.5 text-[10px] uppercase text-gray-500 font-bold">
+        Recent Workspaces
+      </div>
+      {workspaces.map((workspace) => (
+        <WorkspaceItem
+          key={workspace.id}
+          workspace={workspace}
+          onOpen={onOpen}
+          onRemove={onRemove}
+          disabled={disabled}
+        />
+      ))}
+    </div>
+  );
+};
@@ -14,6 +14,21 @@ export const COLORS = {
     agentsMd: "#a855f7",        // AGENTS.md 节点 - 紫色
     agentsMdStroke: "#d8b4fe",  // AGENTS.md 节点边框
     agentsMdText: "#e9d5ff",    // AGENTS.md 文字颜色
+    geminiMd: "#6366f1",        // GEMINI.md 节点 - 靛蓝
+    geminiMdStroke: "#a5b4fc",  // GEMINI.md 节点边框
+    geminiMdText: "#c7d2fe",    // GEMINI.md 文字颜色
+    copilot: "#22c55e",         // Copilot 指令节点 - 绿色
+    copilotStroke: "#86efac",   // Copilot 节点边框
+    copilotText: "#bbf7d0",     // Copilot 文字颜色
+    cursor: "#f97316",          // Cursor 规则节点 - 橙色
+    cursorStroke: "#fdba74",    // Cursor 节点边框
+    cursorText: "#fed7aa",      // Cursor 文字颜色
+    windsurf: "#84cc16",        // Windsurf 规则节点 - 青柠
+    windsurfStroke: "#bef264",  // Windsurf 节点边框
+    windsurfText: "#d9f99d",    // Windsurf 文字颜色
+    combined: "#d946ef",        // CLAUDE.md + AGENTS.md 组合模式 - 品红
+    combinedStroke: "#f0abfc",  // 组合模式边框
+    combinedText: "#f5d0fe",    // 组合模式文字颜色
     default: "#1f2937",         // 默认节点 - 深灰
     defaultStroke: "#374151",   // 默认节点边框
     defaultText: "#9ca3af",     // 默认文字颜色
@@ -25,12 +40,66 @@ export const COLORS = {
     otherMd: "#06b6d4",         // Cyan for other md files
     otherMdStroke: "#22d3ee",   // Cyan stroke
     otherMdText: "#67e8f9",     // Cyan text
+    // 被引用的非 Markdown 路径（叶子节点）
+    sourceFile: "#374151",      // 源文件 - 石板灰
+    sourceFileStroke: "#9ca3af",
+    sourceFileText: "#d1d5db",
+    directory: "#0f766e",       // 目录 - 深青
+    directoryStroke: "#5eead4",
+    directoryText: "#99f6e4",
+    missing: "#7f1d1d",         // 缺失路径 - 暗红
+    missingStroke: "#f87171",
+    missingText: "#fca5a5",
   },
 
   // 连线颜色
   link: {
     stroke: "#4b5563",
     arrow: "#6b7280",
+    atImport: "#34d399",        // @ 导入 - 翠绿
+    markdownLink: "#93c5fd",    // Markdown 链接 - 浅蓝
+    wiki: "#60a5fa",            // [[wiki]] 链接 - 蓝色
+    custom: "#fbbf24",          // 自定义模式 - 琥珀
+    backtickPath: "#6b7280",    // 反引号路径提及 - 灰色
+    inherits: "#c084fc",        // 目录继承（隐式）- 淡紫
+    overrides: "#f472b6",       // 就近覆盖（隐式）- 粉色
+    bridge: "#facc15",          // 跨生态桥接 - 黄色
+    section: "#4b5563",         // 文件到其章节 - 深灰
+    cycle: "#fb7185",           // 选中的引用环 - 玫红
+  },
+
+  // 上下文预算状态
+  budget: {
+    ok: "#10b981",              // 预算内 - 绿色
+    warn: "#f59e0b",            // 接近上限 - 琥珀
+    over: "#ef4444",            // 超出上限 - 红色
+  },
+
+  // 生态对比：两边都有 / 只有一边有
+  comparison: {
+    both: "#10b981",            // 两边都有 - 绿色
+    onlyHere: "#f59e0b",        // 只在这一边 - 琥珀
+  },
+
+  // 检查问题严重程度
+  severity: {
+    error: "#ef4444",           // 错误 - 红色
+    warning: "#f59e0b",         // 警告 - 琥珀
+    info: "#60a5fa",            // 提示 - 蓝色
+  },
+
+  // 按图指标着色（由低到高渐变）
+  metric: {
+    low: "#3b528b",             // 最小值 - 靛蓝
+    high: "#fde725",            // 最大值 - 明黄
+    none: "#374151",            // 无法到达 - 深灰
+  },
+
+  // 按 frontmatter 字段取值着色
+  categorical: {
+    values: ["#60a5fa", "#34d399", "#f472b6", "#fbbf24", "#a78bfa", "#f87171", "#2dd4bf", "#fb923c"],
+    other: "#9ca3af",           // 其余取值 - 灰色
+    unset: "#374151",           // 未设置该字段 - 深灰
   },
 
   // UI 颜色
@@ -44,22 +113,3 @@ export const COLORS = {
     textMuted: "#9ca3af",
   },
 } as const;
-
-// 根据模式获取节点颜色
-export const getNodeColor = (
-  mode: 'CLAUDE.md' | 'AGENTS.md',
-  type: 'fill' | 'stroke' | 'text'
-): string => {
-  if (mode === 'CLAUDE.md') {
-    return type === 'fill'
-      ? COLORS.node.claudeMd
-      : type === 'stroke'
-        ? COLORS.node.claudeMdStroke
-        : COLORS.node.claudeMdText;
-  }
-  return type === 'fill'
-    ? COLORS.node.agentsMd
-    : type === 'stroke'
-      ? COLORS.node.agentsMdStroke
-      : COLORS.node.agentsMdText;
-};
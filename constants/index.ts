@@ -3,6 +3,9 @@
  * Centralized configuration values and magic numbers
  */
 
+import { InheritanceKind, ReferenceKind } from "../types";
+import { COLORS } from "./colors";
+
 // UI layout constants
 export const UI = {
   // Sidebar dimensions
@@ -52,15 +55,34 @@ export const GRAPH = {
   COLLIDE_ITERATIONS: 3,
   COLLIDE_STRENGTH: 0.8,
   CENTER_FORCE_STRENGTH: 0.05,
+  REUSED_LAYOUT_ALPHA: 0.1,
 
   // Link appearance
   LINK_OPACITY: 0.4,
+  LINK_HOVER_OPACITY: 0.9,
   LINK_WIDTH: 1.5,
+  LINK_WIDTH_PER_REFERENCE: 0.75,
+  LINK_MAX_WIDTH: 6,
+  LINK_HIT_WIDTH: 10,
+  BRIDGE_EXTRA_WIDTH: 1.5,
 
   // Arrow marker
   ARROW_REF_X: 28,
   ARROW_SIZE: 6,
 
+  // Radius range when nodes are sized by a measure instead of connections
+  ENCODED_RADIUS_RANGE: 22,
+
+  // Section nodes are drawn smaller than the files they belong to
+  SECTION_RADIUS_SCALE: 0.6,
+
+  // Lint severity badge on the node's upper right edge
+  BADGE_RADIUS: 4,
+
+  // Opacity of nodes and links outside a highlighted cycle
+  DIMMED_NODE_OPACITY: 0.15,
+  DIMMED_LINK_OPACITY: 0.05,
+
   // Label positioning
   LABEL_DX: 16,
   LABEL_DY: 4,
@@ -68,15 +90,83 @@ export const GRAPH = {
   NORMAL_FONT_SIZE: "11px",
 } as const;
 
-// File types that are parsed for cross-references
-export const FILE_TYPES = {
-  CLAUDE_MD: "CLAUDE.md",
-  AGENTS_MD: "AGENTS.md",
-  ALLOWED_TYPES: ["CLAUDE.md", "AGENTS.md"],
+// Link styles by reference kind, in precedence order: a link is drawn in the style of
+// the first kind it has, so a file that is both @imported and mentioned draws solid
+export const LINK_STYLES: readonly {
+  kind: ReferenceKind;
+  label: string;
+  color: string;
+  dash?: string;
+}[] = [
+  { kind: "atImport", label: "@ import", color: COLORS.link.atImport },
+  { kind: "markdownLink", label: "Markdown link", color: COLORS.link.markdownLink },
+  { kind: "wiki", label: "[[Wiki]] link", color: COLORS.link.wiki, dash: "6 3" },
+  { kind: "custom", label: "Custom pattern", color: COLORS.link.custom, dash: "2 3" },
+  { kind: "backtickPath", label: "`path` mention", color: COLORS.link.backtickPath, dash: "4 4" },
+];
+
+// Styles of implicit directory-hierarchy links
+export const INHERITANCE_STYLES: Record<
+  InheritanceKind,
+  { label: string; color: string; dash: string }
+> = {
+  inherits: { label: "Inherits parent dir", color: COLORS.link.inherits, dash: "1 4" },
+  overrides: { label: "Overrides parent dir", color: COLORS.link.overrides, dash: "1 4" },
+};
+
+// Sections of a file split by heading
+export const SECTIONS = {
+  // Deepest heading level that becomes a section node (### and above)
+  MAX_HEADING_DEPTH: 3,
+} as const;
+
+// Scan constants
+export const SCAN = {
+  // Minimum interval between progress reports (ms)
+  PROGRESS_INTERVAL_MS: 100,
+} as const;
+
+// Watch mode constants
+export const WATCH = {
+  // Interval between polls when no file-system observer is available (ms)
+  POLL_INTERVAL_MS: 2000,
+  // Delay before re-checking after an observer notification (ms)
+  OBSERVER_DEBOUNCE_MS: 200,
+} as const;
+
+// Context budget constants
+export const BUDGET = {
+  // Rough characters per token for English prose and code
+  CHARS_PER_TOKEN: 4,
+  // Default thresholds on a file's total tokens (its own plus everything it imports)
+  WARN_TOKENS: 5000,
+  MAX_TOKENS: 10000,
+} as const;
+
+export const LINT = {
+  // Default line limit for one instruction file
+  MAX_FILE_LINES: 300,
+  // Shorter list items (e.g. "Yes", "TODO") are not reported as duplicates
+  DUPLICATE_MIN_CHARS: 20,
 } as const;
 
-// Parse mode type
-export type ParseMode = "CLAUDE.md" | "AGENTS.md";
+export const REPO_CONFIG = {
+  // Optional configuration file read from the repository root
+  FILE_NAME: ".agentlinkrc.json",
+} as const;
 
-// Re-export colors
-export { COLORS, getNodeColor } from "./colors";
+// Re-export colors and instruction-file profiles
+export { COLORS } from "./colors";
+export {
+  PROFILES,
+  DEFAULT_PARSE_MODE,
+  getProfile,
+  getMemberProfiles,
+} from "./profiles";
+export type {
+  ContextScope,
+  InstructionProfile,
+  LinkSyntax,
+  ParseMode,
+  ProfileColors,
+} from "./profiles";
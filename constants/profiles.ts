@@ -0,0 +1,178 @@
+/**
+ * Instruction-file profiles
+ * Each profile describes one agent ecosystem: which files it reads,
+ * which of them are root files, how they reference each other and how they are drawn
+ */
+
+import { COLORS } from "./colors";
+
+// Reference syntaxes recognized in instruction files
+export type LinkSyntax =
+  | "wiki" // [[path/to/file]]
+  | "atImport" // @path/to/file (in backticks, a path mention)
+  | "backtickPath" // `path/to/file.md`
+  | "markdownLink"; // [text](path/to/file.md) and [label]: path/to/file.md
+
+// Which instruction files in enclosing directories an agent loads for a working directory
+export type ContextScope =
+  | "ancestors" // every matching file from the repository root down
+  | "nearest" // only the files of the closest directory that has any
+  | "root"; // only repository-level files
+
+export interface ProfileColors {
+  fill: string;
+  stroke: string;
+  text: string;
+}
+
+export interface InstructionProfile {
+  /** Identifier used as the parse mode */
+  id: string;
+  /** Name shown in the mode selector and legend */
+  label: string;
+  /** Gitignore-style globs (case-insensitive) matching instruction files */
+  filePatterns: readonly string[];
+  /** Gitignore-style globs (case-insensitive) matching root files */
+  rootPatterns: readonly string[];
+  /** Reference syntaxes parsed in this profile's files */
+  linkSyntaxes: readonly LinkSyntax[];
+  /** Instruction files loaded from enclosing directories */
+  contextScope: ContextScope;
+  /** Levels of @ imports the agent expands (0: imports are not expanded) */
+  maxImportDepth: number;
+  /** Whether implicit directory-hierarchy edges are drawn by default */
+  inheritanceEdges: boolean;
+  /**
+   * IDs of the profiles a combined mode shows together. Their files keep their own
+   * colors and directory rules; links between them are bridge edges.
+   */
+  combines?: readonly string[];
+  colors: ProfileColors;
+}
+
+export const PROFILES = [
+  {
+    id: "CLAUDE.md",
+    label: "CLAUDE.md",
+    filePatterns: ["CLAUDE.md", "CLAUDE.local.md"],
+    rootPatterns: ["/CLAUDE.md", "/.claude/CLAUDE.md"],
+    linkSyntaxes: ["wiki", "atImport", "backtickPath", "markdownLink"],
+    contextScope: "ancestors",
+    maxImportDepth: 5,
+    inheritanceEdges: true,
+    colors: {
+      fill: COLORS.node.claudeMd,
+      stroke: COLORS.node.claudeMdStroke,
+      text: COLORS.node.claudeMdText,
+    },
+  },
+  {
+    id: "AGENTS.md",
+    label: "AGENTS.md",
+    filePatterns: ["AGENTS.md"],
+    rootPatterns: ["/AGENTS.md"],
+    linkSyntaxes: ["wiki", "atImport", "backtickPath", "markdownLink"],
+    contextScope: "nearest",
+    maxImportDepth: 0,
+    inheritanceEdges: true,
+    colors: {
+      fill: COLORS.node.agentsMd,
+      stroke: COLORS.node.agentsMdStroke,
+      text: COLORS.node.agentsMdText,
+    },
+  },
+  {
+    id: "GEMINI.md",
+    label: "GEMINI.md",
+    filePatterns: ["GEMINI.md"],
+    rootPatterns: ["/GEMINI.md"],
+    linkSyntaxes: ["atImport", "backtickPath", "markdownLink"],
+    contextScope: "ancestors",
+    maxImportDepth: 5,
+    inheritanceEdges: true,
+    colors: {
+      fill: COLORS.node.geminiMd,
+      stroke: COLORS.node.geminiMdStroke,
+      text: COLORS.node.geminiMdText,
+    },
+  },
+  {
+    id: "Copilot",
+    label: "Copilot instructions",
+    filePatterns: [
+      "/.github/copilot-instructions.md",
+      "/.github/instructions/**/*.instructions.md",
+    ],
+    rootPatterns: ["/.github/copilot-instructions.md"],
+    linkSyntaxes: ["backtickPath", "markdownLink"],
+    contextScope: "root",
+    maxImportDepth: 0,
+    inheritanceEdges: false,
+    colors: {
+      fill: COLORS.node.copilot,
+      stroke: COLORS.node.copilotStroke,
+      text: COLORS.node.copilotText,
+    },
+  },
+  {
+    id: "Cursor",
+    label: "Cursor rules",
+    filePatterns: ["**/.cursor/rules/**/*.mdc", "/.cursorrules"],
+    rootPatterns: ["/.cursor/rules/*.mdc", "/.cursorrules"],
+    linkSyntaxes: ["atImport", "backtickPath", "markdownLink"],
+    contextScope: "ancestors",
+    maxImportDepth: 1,
+    inheritanceEdges: false,
+    colors: {
+      fill: COLORS.node.cursor,
+      stroke: COLORS.node.cursorStroke,
+      text: COLORS.node.cursorText,
+    },
+  },
+  {
+    id: "Windsurf",
+    label: "Windsurf rules",
+    filePatterns: ["/.windsurfrules", "/.windsurf/rules/**/*.md"],
+    rootPatterns: ["/.windsurfrules"],
+    linkSyntaxes: ["atImport", "backtickPath", "markdownLink"],
+    contextScope: "root",
+    maxImportDepth: 0,
+    inheritanceEdges: false,
+    colors: {
+      fill: COLORS.node.windsurf,
+      stroke: COLORS.node.windsurfStroke,
+      text: COLORS.node.windsurfText,
+    },
+  },
+  {
+    id: "CLAUDE.md+AGENTS.md",
+    label: "CLAUDE.md + AGENTS.md",
+    filePatterns: ["CLAUDE.md", "CLAUDE.local.md", "AGENTS.md"],
+    rootPatterns: ["/CLAUDE.md", "/.claude/CLAUDE.md", "/AGENTS.md"],
+    linkSyntaxes: ["wiki", "atImport", "backtickPath", "markdownLink"],
+    contextScope: "ancestors",
+    maxImportDepth: 5,
+    inheritanceEdges: true,
+    combines: ["CLAUDE.md", "AGENTS.md"],
+    colors: {
+      fill: COLORS.node.combined,
+      stroke: COLORS.node.combinedStroke,
+      text: COLORS.node.combinedText,
+    },
+  },
+] as const satisfies readonly InstructionProfile[];
+
+// Parse mode type: one of the profile IDs
+export type ParseMode = (typeof PROFILES)[number]["id"];
+
+export const DEFAULT_PARSE_MODE: ParseMode = "CLAUDE.md";
+
+// Look up a profile by parse mode
+export const getProfile = (mode: ParseMode): InstructionProfile =>
+  PROFILES.find((profile) => profile.id === mode) ?? PROFILES[0];
+
+// Profiles a mode is made of: the members of a combined mode, else the profile itself
+export const getMemberProfiles = (mode: ParseMode): InstructionProfile[] => {
+  const profile = getProfile(mode);
+  return profile.combines?.map((id) => getProfile(id as ParseMode)) ?? [profile];
+};
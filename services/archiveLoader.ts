@@ -0,0 +1,288 @@
+/**
+ * Archive loading service
+ * Reads .zip, .tar and .tar.gz archives in the browser and exposes their entries
+ * as a directory handle, so they are scanned exactly like a picked folder
+ */
+
+import { ScanDirectoryHandle } from "../types";
+import { createMemoryDirectoryHandle, MemoryFileEntry } from "./directoryAdapters";
+
+// Archive file name suffixes accepted by the loader
+export const ARCHIVE_EXTENSIONS = [".zip", ".tar", ".tar.gz", ".tgz"] as const;
+
+// Record signatures and sizes (see the ZIP APPNOTE and POSIX ustar specs)
+const ZIP_LOCAL_HEADER_SIG = 0x04034b50;
+const ZIP_CENTRAL_HEADER_SIG = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR_SIG = 0x06054b50;
+const ZIP_END_OF_CENTRAL_DIR_SIZE = 22;
+const ZIP_MAX_COMMENT_SIZE = 0xffff;
+const ZIP_METHOD_STORED = 0;
+const ZIP_METHOD_DEFLATE = 8;
+const TAR_BLOCK_SIZE = 512;
+
+// An archive member before it is placed in the directory tree
+interface ArchiveMember {
+  path: string;
+  lastModified: number;
+  read: () => Promise<Uint8Array<ArrayBuffer>>;
+}
+
+/**
+ * Check if a file name looks like a supported archive
+ */
+export const isArchiveFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+};
+
+/**
+ * Strip the archive suffix to get a workspace name
+ */
+const getArchiveBaseName = (fileName: string): string => {
+  const lower = fileName.toLowerCase();
+  const ext = ARCHIVE_EXTENSIONS.find((e) => lower.endsWith(e));
+  return ext ? fileName.slice(0, -ext.length) : fileName;
+};
+
+/**
+ * Run bytes through a native DecompressionStream
+ */
+const decompress = async (
+  data: Uint8Array<ArrayBuffer>,
+  format: CompressionFormat
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Convert a DOS date/time pair to a timestamp
+ */
+const dosDateTimeToMs = (date: number, time: number): number =>
+  new Date(
+    ((date >> 9) & 0x7f) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    (time >> 11) & 0x1f,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  ).getTime();
+
+/**
+ * Read members of a zip archive from its central directory
+ * Entries are decompressed only when read
+ */
+const readZipMembers = (data: Uint8Array<ArrayBuffer>): ArchiveMember[] => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // Locate the end-of-central-directory record by scanning back over the comment
+  const searchStart = Math.max(0, data.length - ZIP_END_OF_CENTRAL_DIR_SIZE - ZIP_MAX_COMMENT_SIZE);
+  let eocd = -1;
+  for (let i = data.length - ZIP_END_OF_CENTRAL_DIR_SIZE; i >= searchStart; i--) {
+    if (view.getUint32(i, true) === ZIP_END_OF_CENTRAL_DIR_SIG) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Not a valid zip archive");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const members: ArchiveMember[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_HEADER_SIG) {
+      throw new Error("Corrupt zip central directory");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const time = view.getUint16(offset + 12, true);
+    const date = view.getUint16(offset + 14, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Skip directories and encrypted entries
+    if (path.endsWith("/") || flags & 0x1) continue;
+    if (method !== ZIP_METHOD_STORED && method !== ZIP_METHOD_DEFLATE) continue;
+
+    members.push({
+      path,
+      lastModified: dosDateTimeToMs(date, time),
+      read: async () => {
+        if (view.getUint32(localHeaderOffset, true) !== ZIP_LOCAL_HEADER_SIG) {
+          throw new Error(`Corrupt zip entry: ${path}`);
+        }
+        const dataStart =
+          localHeaderOffset +
+          30 +
+          view.getUint16(localHeaderOffset + 26, true) +
+          view.getUint16(localHeaderOffset + 28, true);
+        const raw = data.subarray(dataStart, dataStart + compressedSize);
+        return method === ZIP_METHOD_DEFLATE ? decompress(raw, "deflate-raw") : raw;
+      },
+    });
+  }
+
+  return members;
+};
+
+/**
+ * Read a NUL-terminated string field from a tar header
+ */
+const readTarString = (block: Uint8Array, start: number, length: number): string => {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end >= 0 ? field.subarray(0, end) : field);
+};
+
+/**
+ * Read an octal number field from a tar header
+ */
+const readTarNumber = (block: Uint8Array, start: number, length: number): number =>
+  parseInt(readTarString(block, start, length).trim() || "0", 8);
+
+/**
+ * Extract the path record from a PAX extended header
+ */
+const readPaxPath = (data: Uint8Array): string | undefined => {
+  const records = new TextDecoder().decode(data).split("\n");
+  for (const record of records) {
+    const match = /^\d+ path=(.*)$/.exec(record);
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+/**
+ * Check a tar header block's checksum: the byte sum of the header with the checksum
+ * field itself counted as spaces
+ */
+const hasValidTarChecksum = (header: Uint8Array): boolean => {
+  const stored = readTarNumber(header, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return stored === sum;
+};
+
+/**
+ * Check if data starts with a tar header (or the zero block of an empty archive)
+ */
+const isTarArchive = (data: Uint8Array): boolean => {
+  if (data.length < TAR_BLOCK_SIZE) return false;
+  const header = data.subarray(0, TAR_BLOCK_SIZE);
+  return header.every((byte) => byte === 0) || hasValidTarChecksum(header);
+};
+
+/**
+ * Read members of an uncompressed tar archive
+ * Supports ustar prefixes, PAX path records and GNU long names
+ */
+const readTarMembers = (data: Uint8Array<ArrayBuffer>): ArchiveMember[] => {
+  const members: ArchiveMember[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK_SIZE <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK_SIZE);
+
+    // Two zero blocks mark the end of the archive; one is enough to stop
+    if (header.every((byte) => byte === 0)) break;
+    if (!hasValidTarChecksum(header)) throw new Error("Corrupt tar header");
+
+    const size = readTarNumber(header, 124, 12);
+    const mtime = readTarNumber(header, 136, 12);
+    const typeFlag = String.fromCharCode(header[156]);
+    const prefix = readTarString(header, 257, 6).startsWith("ustar")
+      ? readTarString(header, 345, 155)
+      : "";
+    const name = readTarString(header, 0, 100);
+    const dataStart = offset + TAR_BLOCK_SIZE;
+    const content = data.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    if (typeFlag === "x") {
+      longName = readPaxPath(content);
+      continue;
+    }
+    if (typeFlag === "L") {
+      longName = readTarString(content, 0, content.length);
+      continue;
+    }
+
+    const path = longName ?? (prefix ? `${prefix}/${name}` : name);
+    longName = undefined;
+
+    // Regular files only ("0" or legacy NUL)
+    if (typeFlag !== "0" && typeFlag !== "\0") continue;
+
+    members.push({
+      path: path.replace(/^\.\//, ""),
+      lastModified: mtime * 1000,
+      read: async () => content,
+    });
+  }
+
+  return members;
+};
+
+/**
+ * Drop a single top-level directory shared by every member
+ * (e.g. "repo-main/" in GitHub archive downloads)
+ */
+const stripCommonRoot = (members: ArchiveMember[]): ArchiveMember[] => {
+  const firstSegments = new Set(members.map((m) => m.path.split("/")[0]));
+  const [root] = firstSegments;
+  const allNested = members.every((m) => m.path.includes("/"));
+
+  if (firstSegments.size !== 1 || !allNested) return members;
+
+  return members.map((m) => ({ ...m, path: m.path.slice(root.length + 1) }));
+};
+
+/**
+ * Open a .zip, .tar or .tar.gz archive as a directory handle
+ */
+export const openArchive = async (archive: File): Promise<ScanDirectoryHandle> => {
+  let data = new Uint8Array(await archive.arrayBuffer());
+
+  // gzip magic bytes: tar.gz / tgz
+  if (data[0] === 0x1f && data[1] === 0x8b) {
+    data = await decompress(data, "gzip");
+  }
+
+  // "PK" magic bytes: zip
+  const isZip = data[0] === 0x50 && data[1] === 0x4b;
+  if (!isZip && !isTarArchive(data)) {
+    throw new Error("Unsupported archive: expected a .zip, .tar or .tar.gz file");
+  }
+  const members = stripCommonRoot(isZip ? readZipMembers(data) : readTarMembers(data));
+
+  const entries: MemoryFileEntry[] = members.map((member) => {
+    const name = member.path.split("/").pop() ?? member.path;
+    return {
+      path: member.path,
+      handle: {
+        kind: "file",
+        name,
+        getFile: async () =>
+          new File([await member.read()], name, { lastModified: member.lastModified }),
+      },
+    };
+  });
+
+  return createMemoryDirectoryHandle(getArchiveBaseName(archive.name), entries);
+};
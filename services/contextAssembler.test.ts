@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { AgentFile, EffectiveContext } from "../types";
+import { assembleContext } from "./contextAssembler";
+
+const makeFile = (path: string, content = `# ${path}\n`): AgentFile => ({
+  path,
+  name: path.split("/").pop()!,
+  directory: path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "",
+  content,
+});
+
+const summarize = (context: EffectiveContext) =>
+  context.entries.map(({ file, reason, depth }) => `${file.path} ${reason} ${depth}`);
+
+describe("assembleContext", () => {
+  it("loads every enclosing CLAUDE.md from the root down under the ancestors scope", () => {
+    const files = [
+      makeFile("CLAUDE.md"),
+      makeFile("packages/api/CLAUDE.local.md"),
+      makeFile("packages/api/CLAUDE.md"),
+      makeFile("packages/CLAUDE.md"),
+      makeFile("packages/web/CLAUDE.md"),
+      makeFile("AGENTS.md"),
+    ];
+
+    expect(summarize(assembleContext(files, "CLAUDE.md", "packages/api/src"))).toEqual([
+      "CLAUDE.md ancestor 0",
+      "packages/CLAUDE.md ancestor 0",
+      // Same directory: in the order the profile lists its file patterns
+      "packages/api/CLAUDE.md ancestor 0",
+      "packages/api/CLAUDE.local.md ancestor 0",
+    ]);
+  });
+
+  it("loads only the nearest AGENTS.md, without expanding imports", () => {
+    const files = [
+      makeFile("AGENTS.md"),
+      makeFile("packages/AGENTS.md", "# Packages\n\n@docs/setup.md\n"),
+      makeFile("packages/api/CLAUDE.md"),
+      makeFile("docs/setup.md"),
+    ];
+
+    expect(summarize(assembleContext(files, "AGENTS.md", "packages/api"))).toEqual([
+      "packages/AGENTS.md ancestor 0",
+    ]);
+    expect(summarize(assembleContext(files, "AGENTS.md", "src"))).toEqual(["AGENTS.md ancestor 0"]);
+  });
+
+  it("loads only root files under the root scope", () => {
+    const files = [
+      makeFile(".github/copilot-instructions.md"),
+      makeFile("packages/CLAUDE.md"),
+    ];
+
+    expect(summarize(assembleContext(files, "Copilot", "packages/api"))).toEqual([
+      ".github/copilot-instructions.md ancestor 0",
+    ]);
+  });
+
+  it("loads a file reached by a long and a short chain once, at the short chain's depth", () => {
+    // CLAUDE.md -> a.md -> b.md is longer than CLAUDE.md -> b.md, and b.md leads on five deep
+    const files = [
+      makeFile("CLAUDE.md", "@a.md\n@b.md\n"),
+      makeFile("a.md", "@b.md\n"),
+      makeFile("b.md", "@c.md\n"),
+      makeFile("c.md", "@d.md\n"),
+      makeFile("d.md", "@e.md\n"),
+      makeFile("e.md", "@f.md\n"),
+      makeFile("f.md"),
+    ];
+    const context = assembleContext(files, "CLAUDE.md", "");
+
+    expect(summarize(context)).toEqual([
+      "CLAUDE.md ancestor 0",
+      "a.md import 1",
+      "b.md import 1",
+      "c.md import 2",
+      "d.md import 3",
+      "e.md import 4",
+      "f.md import 5",
+    ]);
+    expect(context.entries.find((entry) => entry.file.path === "f.md")?.chain).toEqual([
+      "CLAUDE.md",
+      "b.md",
+      "c.md",
+      "d.md",
+      "e.md",
+    ]);
+  });
+
+  it("lists imports past the profile's depth as cutoffs without loading them", () => {
+    const files = [
+      makeFile("CLAUDE.md", "@1.md\n"),
+      ...[1, 2, 3, 4, 5].map((n) => makeFile(`${n}.md`, `@${n + 1}.md\n`)),
+      makeFile("6.md", "@7.md\n"),
+      makeFile("7.md"),
+    ];
+    const context = assembleContext(files, "CLAUDE.md", "");
+
+    expect(summarize(context).slice(-2)).toEqual(["5.md import 5", "6.md depthCutoff 6"]);
+    expect(context.entries.some((entry) => entry.file.path === "7.md")).toBe(false);
+    expect(context.document).not.toContain("# 6.md");
+  });
+
+  it("drops list items already included by an earlier file", () => {
+    const files = [
+      makeFile("CLAUDE.md", "- Use pnpm\n- Run tests\n\n@docs/a.md\n"),
+      makeFile("docs/a.md", "- Use pnpm\n- Write docs\n"),
+    ];
+    const context = assembleContext(files, "CLAUDE.md", "");
+
+    expect(context.duplicatesRemoved).toBe(1);
+    expect(context.document.match(/- Use pnpm/g)).toHaveLength(1);
+    expect(context.document).toContain("- Write docs");
+  });
+});
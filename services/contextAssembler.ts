@@ -0,0 +1,159 @@
+/**
+ * Effective-context assembly
+ * Models what an agent loads when working in a directory: the profile's instruction
+ * files from enclosing directories, then their @ imports expanded up to the profile's
+ * import depth, concatenated into one document
+ */
+
+import { AgentFile, ContextEntry, EffectiveContext } from "../types";
+import { InstructionProfile, ParseMode, getProfile } from "../constants";
+import { buildImportMap, findImportChains } from "./fileParser";
+import { getProfilePatternIndex, getScopeDirectory, isProfileFile } from "./profiles";
+
+// List items ("- x", "* x", "1. x") are the unit of duplicate removal
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\S/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+/**
+ * Check if an instruction file applies to a directory (its scope directory encloses it)
+ */
+const appliesTo = (file: AgentFile, directory: string): boolean => {
+  const scope = getScopeDirectory(file.path);
+  return scope === "" || directory === scope || directory.startsWith(`${scope}/`);
+};
+
+/**
+ * Select the instruction files loaded for a directory before any imports, in load order:
+ * outermost directory first, then the order the profile lists its file patterns
+ */
+const findAncestorFiles = (
+  files: AgentFile[],
+  profile: InstructionProfile,
+  directory: string
+): AgentFile[] => {
+  const depth = (file: AgentFile) => {
+    const scope = getScopeDirectory(file.path);
+    return scope ? scope.split("/").length : 0;
+  };
+
+  // A combined mode loads each ecosystem's files by its own rules
+  if (profile.combines) {
+    return profile.combines
+      .flatMap((id) => findAncestorFiles(files, getProfile(id as ParseMode), directory))
+      .sort((a, b) => depth(a) - depth(b));
+  }
+
+  const applicable = files
+    .filter((file) => isProfileFile(file.path, profile) && appliesTo(file, directory))
+    .sort(
+      (a, b) =>
+        depth(a) - depth(b) ||
+        getProfilePatternIndex(a.path, profile) - getProfilePatternIndex(b.path, profile) ||
+        a.path.localeCompare(b.path)
+    );
+
+  if (applicable.length === 0) return applicable;
+
+  switch (profile.contextScope) {
+    case "nearest": {
+      const nearest = depth(applicable[applicable.length - 1]);
+      return applicable.filter((file) => depth(file) === nearest);
+    }
+    case "root":
+      return applicable.filter((file) => depth(file) === 0);
+    default:
+      return applicable;
+  }
+};
+
+/**
+ * Concatenate loaded files, labelling each and dropping list items already included
+ */
+const concatenate = (entries: ContextEntry[]): { document: string; duplicatesRemoved: number } => {
+  const seenItems = new Set<string>();
+  let duplicatesRemoved = 0;
+
+  const sections = entries.map(({ file, reason, chain }) => {
+    const origin =
+      reason === "ancestor" ? "directory instructions" : `imported via ${chain.map((p) => `\`${p}\``).join(" → ")}`;
+
+    let inFence = false;
+    const lines = (file.content ?? "").trim().split("\n").filter((line) => {
+      if (CODE_FENCE.test(line)) inFence = !inFence;
+      if (inFence || !LIST_ITEM.test(line)) return true;
+
+      const item = line.trim();
+      if (!seenItems.has(item)) {
+        seenItems.add(item);
+        return true;
+      }
+      duplicatesRemoved += 1;
+      return false;
+    });
+
+    return `> **\`${file.path}\`** · ${origin}\n\n${lines.join("\n")}`;
+  });
+
+  return { document: sections.join("\n\n---\n\n"), duplicatesRemoved };
+};
+
+/**
+ * Assemble the effective context of a directory for a parse mode
+ * Files are loaded depth-first: each ancestor file followed by its imports. A file is
+ * loaded once, at the depth of its shortest import chain from any ancestor file; imports
+ * past the profile's maxImportDepth are listed as depth cutoffs.
+ */
+export const assembleContext = (
+  files: AgentFile[],
+  parseTarget: ParseMode,
+  directory: string
+): EffectiveContext => {
+  const profile = getProfile(parseTarget);
+  const imports = buildImportMap(files);
+  const documents = new Map(files.map((file) => [file.path, file]));
+  const loaded: ContextEntry[] = [];
+  const cutoffs = new Map<string, ContextEntry>();
+  const loadedPaths = new Set<string>();
+
+  const ancestors = findAncestorFiles(files, profile, directory);
+  const chains = findImportChains(
+    imports,
+    ancestors.map((file) => file.path),
+    profile.maxImportDepth
+  );
+
+  const load = (file: AgentFile, entry: Omit<ContextEntry, "file">) => {
+    if (loadedPaths.has(file.path)) return;
+    loadedPaths.add(file.path);
+    loaded.push({ file, ...entry });
+
+    // Profiles that don't expand imports load only the directory files
+    if (profile.maxImportDepth === 0) return;
+
+    for (const targetPath of imports.get(file.path) ?? []) {
+      const target = documents.get(targetPath);
+      if (!target || loadedPaths.has(targetPath)) continue;
+
+      // Reached through this file, but reported with its shortest chain
+      const chain = chains.get(targetPath)!.slice(0, -1);
+      const depth = chain.length;
+      if (depth > profile.maxImportDepth) {
+        if (!cutoffs.has(targetPath)) {
+          cutoffs.set(targetPath, { file: target, reason: "depthCutoff", chain, depth });
+        }
+        continue;
+      }
+      load(target, { reason: "import", chain, depth });
+    }
+  };
+
+  for (const file of ancestors) {
+    load(file, { reason: "ancestor", chain: [], depth: 0 });
+  }
+
+  return {
+    directory,
+    entries: [...loaded, ...cutoffs.values()],
+    ...concatenate(loaded),
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { AgentFile } from "../types";
+import { findCycles } from "./cycles";
+
+// Markdown files importing the given files, by path
+const makeFiles = (imports: Record<string, string[]>): AgentFile[] =>
+  Object.entries(imports).map(([path, targets]) => ({
+    path,
+    name: path.split("/").pop()!,
+    directory: path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "",
+    content: `# ${path}\n\n${targets.map((target) => `@${target}`).join("\n")}\n`,
+  }));
+
+describe("findCycles", () => {
+  it("finds no cycles in a chain, a diamond or a star", () => {
+    expect(findCycles(makeFiles({ "a.md": ["b.md"], "b.md": ["c.md"], "c.md": [] }))).toEqual([]);
+    expect(
+      findCycles(
+        makeFiles({ "a.md": ["b.md", "c.md"], "b.md": ["d.md"], "c.md": ["d.md"], "d.md": [] })
+      )
+    ).toEqual([]);
+    expect(
+      findCycles(makeFiles({ "hub.md": ["a.md", "b.md", "c.md"], "a.md": [], "b.md": [], "c.md": [] }))
+    ).toEqual([]);
+  });
+
+  it("finds a two-file and a three-file cycle, largest first", () => {
+    const cycles = findCycles(
+      makeFiles({
+        "a.md": ["b.md"],
+        "b.md": ["a.md"],
+        "x.md": ["y.md"],
+        "y.md": ["z.md"],
+        "z.md": ["x.md"],
+      })
+    );
+
+    expect(cycles).toEqual([
+      { members: ["x.md", "y.md", "z.md"], path: ["x.md", "y.md", "z.md", "x.md"] },
+      { members: ["a.md", "b.md"], path: ["a.md", "b.md", "a.md"] },
+    ]);
+  });
+
+  it("lists the whole component with a shortest closed path through it", () => {
+    // a -> b -> a is the short loop; c joins through b -> c -> a
+    const [cycle] = findCycles(
+      makeFiles({ "a.md": ["b.md"], "b.md": ["a.md", "c.md"], "c.md": ["a.md"], "d.md": ["a.md"] })
+    );
+
+    expect(cycle.members).toEqual(["a.md", "b.md", "c.md"]);
+    expect(cycle.path).toEqual(["a.md", "b.md", "a.md"]);
+  });
+
+  it("follows @ imports through plain documents but not links or mentions", () => {
+    const files: AgentFile[] = [
+      { path: "CLAUDE.md", name: "CLAUDE.md", directory: "", content: "@docs/a.md\n" },
+      { path: "docs/a.md", name: "a.md", directory: "docs", content: "@CLAUDE.md\n" },
+      { path: "AGENTS.md", name: "AGENTS.md", directory: "", content: "See `docs/b.md`\n" },
+      { path: "docs/b.md", name: "b.md", directory: "docs", content: "[root](../AGENTS.md)\n" },
+    ];
+
+    expect(findCycles(files).map((cycle) => cycle.members)).toEqual([["CLAUDE.md", "docs/a.md"]]);
+  });
+});
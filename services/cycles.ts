@@ -0,0 +1,116 @@
+/**
+ * Reference cycle detection
+ * Finds the strongly connected components of the @ import map (Tarjan's algorithm):
+ * groups of documents that all import each other, so loading one pulls in a loop.
+ * Links, mentions and implicit hierarchy edges load nothing, so they are not followed.
+ */
+
+import { AgentFile, ReferenceCycle } from "../types";
+import { buildImportMap } from "./fileParser";
+
+/**
+ * Find the strongly connected components with more than one file
+ */
+const findComponents = (adjacency: Map<string, string[]>): string[][] => {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let nextIndex = 0;
+
+  // Iterative depth-first search, so deep import chains can't overflow the call stack
+  for (const start of adjacency.keys()) {
+    if (indices.has(start)) continue;
+
+    const work: { node: string; edge: number }[] = [{ node: start, edge: 0 }];
+    indices.set(start, nextIndex);
+    lowLinks.set(start, nextIndex++);
+    stack.push(start);
+    onStack.add(start);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = adjacency.get(frame.node) ?? [];
+
+      if (frame.edge < targets.length) {
+        const target = targets[frame.edge++];
+        if (!indices.has(target)) {
+          indices.set(target, nextIndex);
+          lowLinks.set(target, nextIndex++);
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, edge: 0 });
+        } else if (onStack.has(target)) {
+          lowLinks.set(frame.node, Math.min(lowLinks.get(frame.node)!, indices.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLinks.set(parent, Math.min(lowLinks.get(parent)!, lowLinks.get(frame.node)!));
+      }
+
+      if (lowLinks.get(frame.node) === indices.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        if (component.length > 1) components.push(component);
+      }
+    }
+  }
+
+  return components;
+};
+
+/**
+ * Find a shortest closed path from a file back to itself within its component
+ */
+const findClosedPath = (
+  start: string,
+  members: Set<string>,
+  adjacency: Map<string, string[]>
+): string[] => {
+  const previous = new Map<string, string>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const target of adjacency.get(current) ?? []) {
+      if (!members.has(target)) continue;
+      if (target === start) {
+        const path: string[] = [];
+        for (let node = current; node !== start; node = previous.get(node)!) path.push(node);
+        return [start, ...path.reverse(), start];
+      }
+      if (!previous.has(target)) {
+        previous.set(target, current);
+        queue.push(target);
+      }
+    }
+  }
+
+  return [start, start];
+};
+
+/**
+ * Find every @ import cycle among the files, largest first
+ * Each cycle lists its whole component and one closed path through it,
+ * starting at the component's first file in path order
+ */
+export const findCycles = (files: AgentFile[]): ReferenceCycle[] => {
+  const adjacency = buildImportMap(files);
+
+  return findComponents(adjacency)
+    .map((component) => {
+      const members = [...component].sort((a, b) => a.localeCompare(b));
+      return { members, path: findClosedPath(members[0], new Set(members), adjacency) };
+    })
+    .sort((a, b) => b.members.length - a.members.length || a.members[0].localeCompare(b.members[0]));
+};
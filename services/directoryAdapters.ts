@@ -0,0 +1,231 @@
+/**
+ * Directory handle adapters
+ * Expose folders from sources other than showDirectoryPicker (drag-and-drop,
+ * <input webkitdirectory>, in-memory file lists) through the scanner's handle shape,
+ * so they go through the same scanDirectory and .gitignore filtering
+ */
+
+import { ScanDirectoryHandle, ScanFileHandle } from "../types";
+
+/**
+ * A file to place in an in-memory directory tree
+ */
+export interface MemoryFileEntry {
+  /** Path relative to the tree root, using / separators */
+  path: string;
+  handle: ScanFileHandle;
+}
+
+// Intermediate tree structure used while building in-memory handles
+interface MemoryDirectory {
+  directories: Map<string, MemoryDirectory>;
+  files: Map<string, ScanFileHandle>;
+}
+
+// Root handles built from in-memory snapshots, which never change on disk
+const snapshotHandles = new WeakSet<ScanDirectoryHandle>();
+
+const createMemoryDirectory = (): MemoryDirectory => ({
+  directories: new Map(),
+  files: new Map(),
+});
+
+/**
+ * Convert an in-memory directory into a scanner handle
+ */
+const toDirectoryHandle = (name: string, dir: MemoryDirectory): ScanDirectoryHandle => ({
+  kind: "directory",
+  name,
+  async *values() {
+    for (const [childName, child] of dir.directories) {
+      yield toDirectoryHandle(childName, child);
+    }
+    yield* dir.files.values();
+  },
+  getFileHandle: async (fileName: string) => {
+    const handle = dir.files.get(fileName);
+    if (!handle) {
+      throw new DOMException(`${fileName} not found`, "NotFoundError");
+    }
+    return handle;
+  },
+  getDirectoryHandle: async (dirName: string) => {
+    const child = dir.directories.get(dirName);
+    if (!child) {
+      throw new DOMException(`${dirName} not found`, "NotFoundError");
+    }
+    return toDirectoryHandle(dirName, child);
+  },
+});
+
+/**
+ * Check if a handle is a native File System Access directory handle
+ * Only native handles can be persisted and observe live changes on disk
+ */
+export const isNativeDirectoryHandle = (
+  handle: ScanDirectoryHandle
+): handle is FileSystemDirectoryHandle =>
+  typeof FileSystemDirectoryHandle !== "undefined" &&
+  handle instanceof FileSystemDirectoryHandle;
+
+/**
+ * Check if re-reading a handle can observe changes made on disk
+ * False for in-memory snapshots such as file lists and archives
+ */
+export const isLiveDirectoryHandle = (handle: ScanDirectoryHandle): boolean =>
+  !snapshotHandles.has(handle);
+
+/**
+ * Wrap an already-available File as a scanner file handle
+ */
+export const createFileHandle = (file: File, name: string = file.name): ScanFileHandle => ({
+  kind: "file",
+  name,
+  getFile: async () => file,
+});
+
+/**
+ * Build a directory handle from a flat list of files with relative paths
+ */
+export const createMemoryDirectoryHandle = (
+  name: string,
+  entries: MemoryFileEntry[]
+): ScanDirectoryHandle => {
+  const root = createMemoryDirectory();
+
+  for (const entry of entries) {
+    const parts = entry.path.split("/").filter(Boolean);
+    const fileName = parts.pop();
+    if (!fileName) continue;
+
+    let current = root;
+    for (const part of parts) {
+      let next = current.directories.get(part);
+      if (!next) {
+        next = createMemoryDirectory();
+        current.directories.set(part, next);
+      }
+      current = next;
+    }
+    current.files.set(fileName, entry.handle);
+  }
+
+  const handle = toDirectoryHandle(name, root);
+  snapshotHandles.add(handle);
+  return handle;
+};
+
+/**
+ * Build a directory handle from the FileList of an <input webkitdirectory>
+ * Each file's webkitRelativePath starts with the selected folder's name, which becomes the root
+ */
+export const createFileListDirectoryHandle = (files: FileList | File[]): ScanDirectoryHandle => {
+  const fileArray = Array.from(files);
+  const rootName = fileArray[0]?.webkitRelativePath.split("/")[0] ?? "";
+
+  const entries = fileArray.map((file) => ({
+    path: file.webkitRelativePath.split("/").slice(1).join("/"),
+    handle: createFileHandle(file),
+  }));
+
+  return createMemoryDirectoryHandle(rootName, entries);
+};
+
+/**
+ * Promisify FileSystemFileEntry.file()
+ */
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> =>
+  new Promise((resolve, reject) => entry.file(resolve, reject));
+
+/**
+ * Read all entries of a directory
+ * readEntries() returns results in batches and must be called until it yields none
+ */
+const readAllEntries = async (
+  dirEntry: FileSystemDirectoryEntry
+): Promise<FileSystemEntry[]> => {
+  const reader = dirEntry.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+/**
+ * Adapt a file entry from the File and Directory Entries API
+ */
+const createEntryFileHandle = (entry: FileSystemFileEntry): ScanFileHandle => ({
+  kind: "file",
+  name: entry.name,
+  getFile: () => readFileEntry(entry),
+});
+
+/**
+ * Adapt a directory entry (from webkitGetAsEntry) to a scanner handle
+ */
+export const createEntryDirectoryHandle = (
+  dirEntry: FileSystemDirectoryEntry
+): ScanDirectoryHandle => ({
+  kind: "directory",
+  name: dirEntry.name,
+  async *values() {
+    for (const entry of await readAllEntries(dirEntry)) {
+      if (entry.isDirectory) {
+        yield createEntryDirectoryHandle(entry as FileSystemDirectoryEntry);
+      } else if (entry.isFile) {
+        yield createEntryFileHandle(entry as FileSystemFileEntry);
+      }
+    }
+  },
+  getFileHandle: (name: string) =>
+    new Promise((resolve, reject) =>
+      dirEntry.getFile(
+        name,
+        {},
+        (entry) => resolve(createEntryFileHandle(entry as FileSystemFileEntry)),
+        reject
+      )
+    ),
+  getDirectoryHandle: (name: string) =>
+    new Promise((resolve, reject) =>
+      dirEntry.getDirectory(
+        name,
+        {},
+        (entry) => resolve(createEntryDirectoryHandle(entry as FileSystemDirectoryEntry)),
+        reject
+      )
+    ),
+});
+
+/**
+ * Get a directory handle for a folder dropped onto the page
+ * Prefers a File System Access handle where supported, falling back to webkitGetAsEntry
+ * Returns null when the drop does not contain a folder
+ */
+export const getDroppedDirectoryHandle = async (
+  dataTransfer: DataTransfer
+): Promise<ScanDirectoryHandle | null> => {
+  // Items must be read synchronously, before the drop event handler yields
+  const items = Array.from(dataTransfer.items).filter((item) => item.kind === "file");
+  const pending = items.map((item) =>
+    item.getAsFileSystemHandle ? item.getAsFileSystemHandle() : item.webkitGetAsEntry()
+  );
+
+  for (const result of await Promise.all(pending)) {
+    if (!result) continue;
+    if ("isDirectory" in result) {
+      if (result.isDirectory) {
+        return createEntryDirectoryHandle(result as FileSystemDirectoryEntry);
+      }
+    } else if (result.kind === "directory") {
+      return result;
+    }
+  }
+
+  return null;
+};
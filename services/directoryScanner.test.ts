@@ -0,0 +1,88 @@
+import { execFileSync } from "node:child_process";
+import { cp, mkdir, mkdtemp, readdir, rename, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createNodeDirectoryHandle } from "../cli/nodeFileSystem";
+import { scanDirectory } from "./directoryScanner";
+
+// Ignore files are committed as "gitignore" so they don't apply to this repository;
+// each test works on a copy with them renamed to ".gitignore"
+const FIXTURE = fileURLToPath(new URL("./__fixtures__/gitignore-repo", import.meta.url));
+
+// Markdown files `git ls-files --others --exclude-standard` lists for the fixture
+const EXPECTED = [
+  "CLAUDE.md",
+  "archive.md",
+  "docs/TODO.md",
+  "generated/keep.md",
+  "other/private.md",
+  "packages/app/notes.md",
+  "packages/app/sub/local.md",
+  "packages/lib/README.md",
+  "packages/local.md",
+  "scratch.md",
+  "tmp-keep.md",
+];
+
+const hasGit = (() => {
+  try {
+    execFileSync("git", ["--version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const restoreIgnoreFiles = async (dir: string): Promise<void> => {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      await restoreIgnoreFiles(entryPath);
+    } else if (entry.name === "gitignore") {
+      await rename(entryPath, path.join(dir, ".gitignore"));
+    }
+  }
+};
+
+const scanPaths = async (dir: string): Promise<string[]> =>
+  (await scanDirectory(createNodeDirectoryHandle(dir))).map((file) => file.path).sort();
+
+describe("scanDirectory ignore rules", () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await mkdtemp(path.join(tmpdir(), "agentlink-gitignore-"));
+    await cp(FIXTURE, repo, { recursive: true });
+    await restoreIgnoreFiles(repo);
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it("keeps the files git keeps", async () => {
+    expect(await scanPaths(repo)).toEqual(EXPECTED);
+  });
+
+  it.skipIf(!hasGit)("matches git ls-files --exclude-standard", async () => {
+    execFileSync("git", ["init", "-q"], { cwd: repo });
+    const listed = execFileSync("git", ["ls-files", "--others", "--exclude-standard"], {
+      cwd: repo,
+      encoding: "utf8",
+    })
+      .split("\n")
+      .filter((file) => file.endsWith(".md"))
+      .sort();
+
+    expect(await scanPaths(repo)).toEqual(listed);
+  });
+
+  it("reads root rules from .git/info/exclude", async () => {
+    await mkdir(path.join(repo, ".git", "info"), { recursive: true });
+    await rename(path.join(repo, ".gitignore"), path.join(repo, ".git", "info", "exclude"));
+    // Nothing overrides the exclude file's rules, so the result is unchanged
+    expect(await scanPaths(repo)).toEqual(EXPECTED);
+  });
+});
@@ -3,8 +3,18 @@
  * Handles recursive directory traversal with gitignore support
  */
 
-import { AgentFile } from "../types";
-import { parseGitignore, shouldIgnore } from "./gitignore";
+import {
+  AgentFile,
+  ScanDirectoryHandle,
+  ScanFileHandle,
+  ScanProgress,
+  ScanResult,
+} from "../types";
+import { SCAN } from "../constants";
+import { GitignoreRule, parseGitignore, shouldIgnore } from "./gitignore";
+import { isInstructionPath } from "./profiles";
+import { isRepoConfigFile, loadRepoConfig } from "./repoConfig";
+import { parseFrontmatter } from "./frontmatter";
 
 // Directories to always skip (version control systems)
 const ALWAYS_SKIP_DIRS = new Set([".git", ".svn", ".hg"]);
@@ -20,31 +30,61 @@ const buildEntryPath = (relativePath: string, entryName: string): string => {
 };
 
 /**
- * Try to load .gitignore from a directory and add patterns to the map
+ * Read and parse an ignore file, returning no rules if it does not exist
+ */
+const readIgnoreFile = async (
+  getHandle: () => Promise<ScanFileHandle>
+): Promise<GitignoreRule[]> => {
+  try {
+    const file = await (await getHandle()).getFile();
+    return parseGitignore(await file.text());
+  } catch {
+    // No ignore file here, continue
+    return [];
+  }
+};
+
+/**
+ * Try to load .gitignore from a directory and add its rules to the map
+ * At the repository root, .git/info/exclude is loaded first so .gitignore rules override it,
+ * and the "ignore" globs of .agentlinkrc.json are added last so they override both
  */
 const loadGitignorePatterns = async (
-  dirHandle: FileSystemDirectoryHandle,
+  dirHandle: ScanDirectoryHandle,
   relativePath: string,
-  gitignorePatterns: Map<string, string[]>
+  gitignorePatterns: Map<string, GitignoreRule[]>
 ): Promise<void> => {
-  try {
-    const gitignoreHandle = await dirHandle.getFileHandle(".gitignore");
-    const gitignoreFile = await gitignoreHandle.getFile();
-    const gitignoreContent = await gitignoreFile.text();
-    const patterns = parseGitignore(gitignoreContent);
-    if (patterns.length > 0) {
-      gitignorePatterns.set(relativePath, patterns);
-    }
-  } catch {
-    // No .gitignore in this directory, continue
+  const excludeRules =
+    relativePath === ""
+      ? await readIgnoreFile(async () => {
+          const gitDir = await dirHandle.getDirectoryHandle(".git");
+          const infoDir = await gitDir.getDirectoryHandle("info");
+          return infoDir.getFileHandle("exclude");
+        })
+      : [];
+  const gitignoreRules = await readIgnoreFile(() => dirHandle.getFileHandle(".gitignore"));
+  const configRules =
+    relativePath === ""
+      ? parseGitignore((await loadRepoConfig(dirHandle)).ignore.join("\n"))
+      : [];
+
+  const rules = [...excludeRules, ...gitignoreRules, ...configRules];
+  if (rules.length > 0) {
+    gitignorePatterns.set(relativePath, rules);
   }
 };
 
 /**
  * Check if a file should be included in the scan results
+ * Markdown files, instruction files with other extensions (e.g., .mdc, .cursorrules)
+ * and the repository configuration file, which graph building reads from the results
  */
-const isMarkdownFile = (fileName: string): boolean => {
-  return fileName.toLowerCase().endsWith(MARKDOWN_EXTENSION);
+const isScannedFile = (entryPath: string): boolean => {
+  return (
+    entryPath.toLowerCase().endsWith(MARKDOWN_EXTENSION) ||
+    isInstructionPath(entryPath) ||
+    isRepoConfigFile({ path: entryPath })
+  );
 };
 
 /**
@@ -53,7 +93,7 @@ const isMarkdownFile = (fileName: string): boolean => {
 const shouldSkipDirectory = (
   dirName: string,
   entryPath: string,
-  gitignorePatterns: Map<string, string[]>
+  gitignorePatterns: Map<string, GitignoreRule[]>
 ): boolean => {
   // Always skip version control directories
   if (ALWAYS_SKIP_DIRS.has(dirName)) {
@@ -71,7 +111,7 @@ const createAgentFile = (
   entryPath: string,
   entryName: string,
   relativePath: string,
-  fileHandle: FileSystemFileHandle
+  fileHandle: ScanFileHandle
 ): AgentFile => ({
   path: entryPath,
   name: entryName,
@@ -80,13 +120,25 @@ const createAgentFile = (
 });
 
 /**
- * Recursively scan a directory for markdown files
- * Respects .gitignore patterns at each level
+ * Options for directory scanning
+ */
+export interface ScanOptions {
+  /** Stops traversal early; files found so far are still returned */
+  signal?: AbortSignal;
+  /** Called after each directory's entries have been read */
+  onDirectory?: (relativePath: string) => void;
+  /** Called for each markdown file that passes the ignore rules */
+  onFile?: (file: AgentFile) => void;
+}
+
+/**
+ * Recursively scan one directory level
  */
-export const scanDirectory = async (
-  dirHandle: FileSystemDirectoryHandle,
-  relativePath: string = "",
-  gitignorePatterns: Map<string, string[]> = new Map()
+const scanDirectoryLevel = async (
+  dirHandle: ScanDirectoryHandle,
+  relativePath: string,
+  gitignorePatterns: Map<string, GitignoreRule[]>,
+  options: ScanOptions
 ): Promise<AgentFile[]> => {
   const foundFiles: AgentFile[] = [];
 
@@ -95,34 +147,31 @@ export const scanDirectory = async (
     await loadGitignorePatterns(dirHandle, relativePath, gitignorePatterns);
 
     // Iterate through directory entries
-    // @ts-expect-error - values() method exists in File System Access API
     for await (const entry of dirHandle.values()) {
+      if (options.signal?.aborted) break;
+
       const entryPath = buildEntryPath(relativePath, entry.name);
 
       if (entry.kind === "file") {
-        // Process markdown files that aren't ignored
+        // Process markdown and instruction files that aren't ignored
         if (
-          isMarkdownFile(entry.name) &&
+          isScannedFile(entryPath) &&
           !shouldIgnore(entryPath, false, gitignorePatterns)
         ) {
-          foundFiles.push(
-            createAgentFile(
-              entryPath,
-              entry.name,
-              relativePath,
-              entry as FileSystemFileHandle
-            )
-          );
+          const file = createAgentFile(entryPath, entry.name, relativePath, entry);
+          foundFiles.push(file);
+          options.onFile?.(file);
         }
       } else if (entry.kind === "directory") {
         // Recursively scan non-ignored directories
         if (
           !shouldSkipDirectory(entry.name, entryPath, gitignorePatterns)
         ) {
-          const subFiles = await scanDirectory(
-            entry as FileSystemDirectoryHandle,
+          const subFiles = await scanDirectoryLevel(
+            entry,
             entryPath,
-            gitignorePatterns
+            gitignorePatterns,
+            options
           );
           foundFiles.push(...subFiles);
         }
@@ -132,32 +181,100 @@ export const scanDirectory = async (
     console.error("Error scanning directory:", error);
   }
 
+  options.onDirectory?.(relativePath);
   return foundFiles;
 };
 
+/**
+ * Recursively scan a directory for markdown files
+ * Respects .gitignore patterns at each level
+ */
+export const scanDirectory = (
+  dirHandle: ScanDirectoryHandle,
+  options: ScanOptions = {}
+): Promise<AgentFile[]> => {
+  return scanDirectoryLevel(dirHandle, "", new Map(), options);
+};
+
+/**
+ * Load content for a single file
+ * Failures are logged and the file is returned without content
+ */
+const loadFileContent = async (
+  file: AgentFile,
+  onRead?: (bytes: number) => void
+): Promise<AgentFile> => {
+  if (!file.fileHandle || file.content) return file;
+
+  try {
+    const fileObj = await file.fileHandle.getFile();
+    const content = await fileObj.text();
+    onRead?.(fileObj.size);
+    return {
+      ...file,
+      content,
+      frontmatter: parseFrontmatter(content)?.data,
+      lastModified: fileObj.lastModified,
+    };
+  } catch (error) {
+    console.error(`Failed to load ${file.path}:`, error);
+    return file;
+  }
+};
+
 /**
  * Load content for all files in parallel
- * Uses Promise.allSettled to handle individual failures gracefully
  */
-export const loadAllFileContents = async (
+export const loadAllFileContents = (
   files: AgentFile[]
 ): Promise<AgentFile[]> => {
-  const results = await Promise.allSettled(
-    files.map(async (file) => {
-      if (file.fileHandle && !file.content) {
-        const fileObj = await file.fileHandle.getFile();
-        const content = await fileObj.text();
-        return { ...file, content };
-      }
-      return file;
-    })
-  );
+  return Promise.all(files.map((file) => loadFileContent(file)));
+};
 
-  return results.map((result, index) => {
-    if (result.status === "fulfilled") {
-      return result.value;
-    }
-    console.error(`Failed to load ${files[index].path}:`, result.reason);
-    return files[index];
+/**
+ * Scan a directory and load each markdown file as soon as it is found
+ * Progress is reported at most every SCAN.PROGRESS_INTERVAL_MS, plus once at the end.
+ * When aborted, traversal stops and the files found so far are returned with content.
+ */
+export const scanAndLoadDirectory = async (
+  dirHandle: ScanDirectoryHandle,
+  options: { signal?: AbortSignal; onProgress?: (progress: ScanProgress) => void } = {}
+): Promise<ScanResult> => {
+  const progress: ScanProgress = {
+    directoriesVisited: 0,
+    markdownFilesFound: 0,
+    bytesRead: 0,
+  };
+  let lastReport = 0;
+
+  const report = (force: boolean = false) => {
+    const now = Date.now();
+    if (!force && now - lastReport < SCAN.PROGRESS_INTERVAL_MS) return;
+    lastReport = now;
+    options.onProgress?.({ ...progress });
+  };
+
+  const loads: Promise<AgentFile>[] = [];
+
+  await scanDirectory(dirHandle, {
+    signal: options.signal,
+    onDirectory: () => {
+      progress.directoriesVisited += 1;
+      report();
+    },
+    onFile: (file) => {
+      progress.markdownFilesFound += 1;
+      loads.push(
+        loadFileContent(file, (bytes) => {
+          progress.bytesRead += bytes;
+          report();
+        })
+      );
+    },
   });
+
+  const files = await Promise.all(loads);
+  report(true);
+
+  return { files, cancelled: options.signal?.aborted ?? false };
 };
@@ -0,0 +1,84 @@
+/**
+ * Ecosystem drift detection
+ * In a combined mode, finds directories where the ecosystems' instruction files have
+ * drifted apart: one has a file the other lacks, or both have files that don't reference
+ * each other (e.g., a CLAUDE.md that no longer says @AGENTS.md)
+ */
+
+import { AgentFile, DirectoryDrift, GraphData, GraphNode } from "../types";
+import { ParseMode, getMemberProfiles } from "../constants";
+import { buildGraphData } from "./fileParser";
+import { getScopeDirectory, isProfileFile } from "./profiles";
+
+/**
+ * Find drifted directories, sorted by path
+ * Modes that aren't combined have nothing to compare and return no drift
+ */
+export const findDrift = (
+  files: AgentFile[],
+  parseTarget: ParseMode,
+  graph: GraphData = buildGraphData(files, parseTarget)
+): DirectoryDrift[] => {
+  const members = getMemberProfiles(parseTarget);
+  if (members.length < 2) return [];
+
+  // Each directory's files, grouped by ecosystem
+  const byDirectory = new Map<string, AgentFile[][]>();
+  for (const file of files) {
+    const memberIndex = members.findIndex((profile) => isProfileFile(file.path, profile));
+    if (memberIndex < 0) continue;
+
+    const directory = getScopeDirectory(file.path);
+    const groups = byDirectory.get(directory) ?? members.map(() => []);
+    groups[memberIndex].push(file);
+    byDirectory.set(directory, groups);
+  }
+
+  // Section nodes count as their file
+  const pathById = new Map(graph.nodes.map((node) => [node.id, node.file.path]));
+  const getPath = (end: string | GraphNode): string =>
+    typeof end === "string" ? (pathById.get(end) ?? end) : end.file.path;
+  const referenced = new Set(
+    graph.links
+      .filter((link) => !link.inheritance && !link.contains)
+      .map((link) => `${getPath(link.source)}->${getPath(link.target)}`)
+  );
+
+  const drift: DirectoryDrift[] = [];
+  for (const [directory, groups] of byDirectory) {
+    const present = groups.flat();
+    const missing = members.filter((_, i) => groups[i].length === 0).map((profile) => profile.label);
+
+    if (missing.length > 0) {
+      drift.push({ directory, kind: "missingCounterpart", files: present, missing });
+      continue;
+    }
+
+    // Any reference from one ecosystem's file to another's keeps them in sync
+    const isLinked = groups.some((group, i) =>
+      group.some((source) =>
+        groups.some(
+          (others, j) =>
+            i !== j && others.some((target) => referenced.has(`${source.path}->${target.path}`))
+        )
+      )
+    );
+    if (!isLinked) {
+      drift.push({ directory, kind: "unlinked", files: present, missing });
+    }
+  }
+
+  return drift.sort((a, b) => a.directory.localeCompare(b.directory));
+};
+
+/**
+ * Describe a drifted directory in one sentence
+ */
+export const describeDrift = (drift: DirectoryDrift): string => {
+  const location = drift.directory ? `${drift.directory}/` : "the repository root";
+  const present = drift.files.map((file) => file.name).join(" and ");
+
+  return drift.kind === "missingCounterpart"
+    ? `${location} has ${present} but no ${drift.missing.join(" or ")}`
+    : `${present} in ${location} don't reference each other`;
+};
@@ -0,0 +1,200 @@
+/**
+ * Ecosystem comparison
+ * Builds the graphs of two parse modes (CLAUDE.md and AGENTS.md by default) and aligns
+ * them by directory, to show what a migration from one to the other still lacks:
+ * directories with instruction files on one side only, and references one side has
+ * that the other doesn't
+ */
+
+import {
+  AgentFile,
+  ComparisonPresence,
+  EcosystemComparison,
+  GraphData,
+  GraphLink,
+  GraphNode,
+  MissingDirectory,
+  MissingImport,
+} from "../types";
+import { InstructionProfile, ParseMode, getProfile } from "../constants";
+import { buildGraphData } from "./fileParser";
+import { getScopeDirectory, isInstructionPath, isProfileFile } from "./profiles";
+
+/**
+ * Aligned node ID of a file: its scope directory for the profile's instruction files
+ * ("./" at the root), else its path
+ */
+export const getComparisonId = (path: string, profile: InstructionProfile): string => {
+  if (!isProfileFile(path, profile)) return path;
+  const directory = getScopeDirectory(path);
+  return directory ? `${directory}/` : "./";
+};
+
+interface AlignedGraph {
+  graph: GraphData;
+  /** File holding the first reference behind each link, by "source->target" */
+  linkFiles: Map<string, AgentFile>;
+}
+
+/**
+ * Collapse a graph onto aligned IDs, keeping the profile's own files and other documents
+ * Instruction files of other ecosystems, referenced paths and implicit links are dropped
+ */
+const alignGraph = (graph: GraphData, profile: InstructionProfile): AlignedGraph => {
+  const files = new Map(graph.nodes.map((node) => [node.id, node.file]));
+  const ids = new Map<string, string>();
+  const nodes = new Map<string, GraphNode>();
+
+  for (const node of graph.nodes) {
+    const { path } = node.file;
+    if (node.type !== "document") continue;
+    if (isInstructionPath(path) && !isProfileFile(path, profile)) continue;
+
+    const id = getComparisonId(path, profile);
+    ids.set(node.id, id);
+
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.isRoot ||= node.isRoot;
+      continue;
+    }
+    nodes.set(id, {
+      id,
+      name: id,
+      group: 1,
+      file: node.file,
+      val: 1,
+      isRoot: node.isRoot,
+      type: "document",
+    });
+  }
+
+  const links = new Map<string, GraphLink>();
+  const linkFiles = new Map<string, AgentFile>();
+  for (const link of graph.links) {
+    if (link.inheritance || link.contains) continue;
+
+    const sourceId = typeof link.source === "string" ? link.source : link.source.id;
+    const targetId = typeof link.target === "string" ? link.target : link.target.id;
+    const source = ids.get(sourceId);
+    const target = ids.get(targetId);
+    // Files of one directory referencing each other (CLAUDE.local.md -> CLAUDE.md) align to one node
+    if (!source || !target || source === target) continue;
+
+    const key = `${source}->${target}`;
+    const existing = links.get(key);
+    if (existing) {
+      existing.occurrences.push(...link.occurrences);
+      existing.count += link.count;
+      for (const kind of link.kinds) {
+        if (!existing.kinds.includes(kind)) existing.kinds.push(kind);
+      }
+      continue;
+    }
+
+    linkFiles.set(key, files.get(sourceId)!);
+    links.set(key, {
+      source,
+      target,
+      anchors: [...link.anchors],
+      kinds: [...link.kinds],
+      count: link.count,
+      occurrences: [...link.occurrences],
+    });
+    nodes.get(source)!.val += 1;
+    nodes.get(target)!.val += 1;
+  }
+
+  return {
+    graph: {
+      nodes: Array.from(nodes.values()),
+      links: Array.from(links.values()),
+      unresolved: graph.unresolved,
+      externalLinks: graph.externalLinks,
+      caseMismatches: graph.caseMismatches,
+    },
+    linkFiles,
+  };
+};
+
+/**
+ * Mark keys as present on the left, the right or both
+ */
+const comparePresence = (left: string[], right: string[]): Map<string, ComparisonPresence> => {
+  const presence = new Map<string, ComparisonPresence>(left.map((key) => [key, "left"]));
+  for (const key of right) presence.set(key, presence.has(key) ? "both" : "right");
+  return presence;
+};
+
+const getLinkKey = (link: GraphLink): string =>
+  `${typeof link.source === "string" ? link.source : link.source.id}->${
+    typeof link.target === "string" ? link.target : link.target.id
+  }`;
+
+/**
+ * Compare two parse modes' graphs of the same files
+ */
+export const compareEcosystems = (
+  files: AgentFile[],
+  leftMode: ParseMode = "CLAUDE.md",
+  rightMode: ParseMode = "AGENTS.md"
+): EcosystemComparison => {
+  const aligned = {
+    left: alignGraph(buildGraphData(files, leftMode), getProfile(leftMode)),
+    right: alignGraph(buildGraphData(files, rightMode), getProfile(rightMode)),
+  };
+  const sides = { left: aligned.left.graph, right: aligned.right.graph };
+
+  const nodePresence = comparePresence(
+    sides.left.nodes.map((node) => node.id),
+    sides.right.nodes.map((node) => node.id)
+  );
+  const linkPresence = comparePresence(
+    sides.left.links.map(getLinkKey),
+    sides.right.links.map(getLinkKey)
+  );
+  // Links, wiki links and mentions load nothing, so only @ imports count as missing imports
+  const getImports = (links: GraphLink[]) => links.filter((link) => link.kinds.includes("atImport"));
+  const importPresence = comparePresence(
+    getImports(sides.left.links).map(getLinkKey),
+    getImports(sides.right.links).map(getLinkKey)
+  );
+
+  const missingDirectories: MissingDirectory[] = [];
+  const missingImports: MissingImport[] = [];
+
+  for (const side of ["left", "right"] as const) {
+    const profile = getProfile(side === "left" ? leftMode : rightMode);
+
+    for (const node of sides[side].nodes) {
+      if (nodePresence.get(node.id) !== side || !node.id.endsWith("/")) continue;
+      missingDirectories.push({
+        directory: node.id === "./" ? "" : node.id.slice(0, -1),
+        presentIn: side,
+        files: files.filter((file) => getComparisonId(file.path, profile) === node.id),
+      });
+    }
+
+    for (const link of getImports(sides[side].links)) {
+      const key = getLinkKey(link);
+      if (importPresence.get(key) !== side) continue;
+      missingImports.push({
+        source: link.source as string,
+        target: link.target as string,
+        presentIn: side,
+        file: aligned[side].linkFiles.get(key)!,
+        line: link.occurrences.find((occurrence) => occurrence.kind === "atImport")?.line ?? 1,
+      });
+    }
+  }
+
+  return {
+    ...sides,
+    nodePresence,
+    linkPresence,
+    missingDirectories: missingDirectories.sort((a, b) => a.directory.localeCompare(b.directory)),
+    missingImports: missingImports.sort(
+      (a, b) => a.source.localeCompare(b.source) || a.target.localeCompare(b.target)
+    ),
+  };
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { AgentFile, GraphLink } from "../types";
+import { buildGraphData, buildImportMap, extractFileReferences } from "./fileParser";
+
+const makeFile = (path: string, content: string): AgentFile => ({
+  path,
+  name: path.split("/").pop()!,
+  directory: path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "",
+  content,
+});
+
+const linkPairs = (links: GraphLink[]) =>
+  links.map((link) => `${link.source}->${link.target}`).sort();
+
+describe("buildGraphData path resolution", () => {
+  it("resolves markdown links from the linking file's directory", () => {
+    const graph = buildGraphData(
+      [
+        makeFile("CLAUDE.md", "# Root\n"),
+        makeFile("packages/api/CLAUDE.md", "# API\n\nSee [guide](guide.md) and [root](../../CLAUDE.md).\n"),
+        makeFile("packages/api/guide.md", "# Guide\n"),
+        makeFile("guide.md", "# Root guide\n"),
+      ],
+      "CLAUDE.md"
+    );
+
+    expect(graph.unresolved).toEqual([]);
+    expect(linkPairs(graph.links)).toEqual([
+      "packages/api/CLAUDE.md->CLAUDE.md",
+      "packages/api/CLAUDE.md->packages/api/guide.md",
+    ]);
+  });
+
+  it("resolves implicit @ imports from the repository root", () => {
+    const graph = buildGraphData(
+      [
+        makeFile("packages/api/CLAUDE.md", "# API\n\n@docs/setup.md\n"),
+        makeFile("docs/setup.md", "# Setup\n"),
+        makeFile("packages/api/docs/setup.md", "# Nested setup\n"),
+      ],
+      "CLAUDE.md"
+    );
+
+    expect(linkPairs(graph.links)).toEqual(["packages/api/CLAUDE.md->docs/setup.md"]);
+  });
+
+  it("reports a markdown link missing next to its file with the relative path", () => {
+    const graph = buildGraphData(
+      [makeFile("packages/api/CLAUDE.md", "[guide](guide.md)\n"), makeFile("guide.md", "# Guide\n")],
+      "CLAUDE.md"
+    );
+
+    expect(graph.unresolved.map((ref) => ref.resolvedPath)).toEqual(["packages/api/guide.md"]);
+  });
+});
+
+describe("extractFileReferences", () => {
+  it("skips frontmatter and keeps positions in the whole file", () => {
+    const file = makeFile(
+      "CLAUDE.md",
+      "---\ndescription: see @docs/x.md\n---\n# Root\n\n@docs/y.md\n"
+    );
+
+    const references = extractFileReferences(file);
+    expect(references.map(({ link, line, column }) => ({ link, line, column }))).toEqual([
+      { link: "@docs/y.md", line: 6, column: 1 },
+    ]);
+    expect(file.content!.slice(references[0].offset)).toMatch(/^@docs\/y\.md/);
+
+    const imports = buildImportMap([file, makeFile("docs/x.md", ""), makeFile("docs/y.md", "")]);
+    expect(imports.get("CLAUDE.md")).toEqual(["docs/y.md"]);
+  });
+});
@@ -1,35 +1,67 @@
-import { AgentFile, FileTreeNode, GraphLink, GraphNode } from "../types";
-import { FILE_TYPES, ParseMode } from "../constants";
-
-// Regex patterns for link extraction (compiled once for performance)
-const LINK_PATTERNS = {
-  // [[wiki-style]] links (legacy AGENTS.md format)
-  wikiLink: /\[\[(.*?)\]\]/g,
-  // `@/path/to/file` or `@./path` (backtick wrapped)
-  backtickAtLink: /`(@[\/\.]?[a-zA-Z0-9_\-\.\/]+)`/g,
-  // @path without backticks
-  atLink: /(?:^|[\s:])(@[\/\.]?[a-zA-Z0-9_\-\.\/]+)/gm,
-  // `path/to/file.md` without @ prefix
-  backtickPath: /`([a-zA-Z0-9_\-\.\/]+\.(md|ts|js|json|yaml|yml))`/g,
-} as const;
+import {
+  AgentFile,
+  CaseMismatch,
+  DocumentSection,
+  ExternalLink,
+  FileTreeNode,
+  GraphData,
+  GraphLink,
+  GraphNode,
+  GraphNodeType,
+  LinkOccurrence,
+  MarkdownReference,
+  PathKind,
+  ReferenceKind,
+  UnresolvedReference,
+} from "../types";
+import { ParseMode, PROFILES, getMemberProfiles, getProfile } from "../constants";
+import { getFileProfile, isInstructionPath, isProfileFile, isProfileRootFile } from "./profiles";
+import { EMPTY_REPO_CONFIG, RepoConfig, getRepoConfig } from "./repoConfig";
+import { extractReferences, isExternalLink, isHomeLink } from "./referenceExtractor";
+import { findInheritance } from "./inheritance";
+import { buildResolutionIndex, resolveReference } from "./resolutionIndex";
+import { extractSections, findSectionAt, findSectionByAnchor } from "./sections";
+import { parseFrontmatter } from "./frontmatter";
 
 /**
  * Resolve a link path relative to the source file location
- * Supports: absolute (/path), explicit relative (./path, ../path), and implicit root (path)
+ * Supports: aliases from .agentlinkrc.json, absolute (/path), explicit relative (./path, ../path),
+ * and implicit paths: relative to the source file for markdown links, as in CommonMark,
+ * and to the root for every other syntax
  */
-const resolvePath = (sourcePath: string, linkPath: string): string => {
-  // Strip leading @ if present
-  const cleanLink = linkPath.startsWith("@")
+const resolvePath = (
+  sourcePath: string,
+  linkPath: string,
+  kind: ReferenceKind,
+  aliases: Record<string, string> = {}
+): string => {
+  // Strip leading @ if present, and sentence punctuation after the extension
+  const cleanLink = (linkPath.startsWith("@")
     ? linkPath.slice(1).trim()
-    : linkPath.trim();
+    : linkPath.trim()
+  ).replace(/(?<=[^./])\.+$/, "");
+
+  // Aliased prefix, longest first (e.g., @shared/ -> tools/agent-shared/), relative to the root
+  const alias = Object.keys(aliases)
+    .sort((a, b) => b.length - a.length)
+    .find((prefix) => cleanLink.startsWith(prefix.replace(/^@/, "")));
+  if (alias !== undefined) {
+    const target = aliases[alias].replace(/^\.?\/+/, "");
+    return `${target}${cleanLink.slice(alias.replace(/^@/, "").length)}`;
+  }
 
   // Absolute path from project root (e.g., /src/main.ts)
   if (cleanLink.startsWith("/")) {
     return cleanLink.slice(1);
   }
 
-  // Explicit relative path (e.g., ./utils.ts or ../config.json)
-  if (cleanLink.startsWith(".")) {
+  // Explicit relative path (e.g., ./utils.ts or ../config.json), not dot-directories like .cursor/
+  if (/^\.\.?(\/|$)/.test(cleanLink)) {
+    return resolveRelativePath(sourcePath, cleanLink);
+  }
+
+  // Implicit relative to the linking file (e.g., [guide](guide.md))
+  if (kind === "markdownLink") {
     return resolveRelativePath(sourcePath, cleanLink);
   }
 
@@ -60,158 +92,332 @@ const resolveRelativePath = (sourcePath: string, relativePath: string): string =
 };
 
 /**
- * Reset all regex patterns (required for global flag)
+ * Extract the references of a file with the syntaxes of its profile
+ * Files outside any profile (e.g., docs/*.md) use every syntax. Frontmatter is metadata,
+ * so only the body is read; offsets and lines still count from the start of the file.
  */
-const resetPatterns = (): void => {
-  Object.values(LINK_PATTERNS).forEach((pattern) => {
-    pattern.lastIndex = 0;
-  });
+export const extractFileReferences = (
+  file: AgentFile,
+  config: RepoConfig = EMPTY_REPO_CONFIG
+): MarkdownReference[] => {
+  if (!file.content) return [];
+
+  const bodyOffset = parseFrontmatter(file.content)?.bodyOffset ?? 0;
+  const lineOffset = file.content.slice(0, bodyOffset).split("\n").length - 1;
+
+  return extractReferences(file.content.slice(bodyOffset), {
+    syntaxes: getFileProfile(file.path)?.linkSyntaxes,
+    customPatterns: config.patterns,
+    includeCodeBlocks: config.includeCodeBlocks,
+  }).map((ref) => ({ ...ref, offset: ref.offset + bodyOffset, line: ref.line + lineOffset }));
 };
 
 /**
- * Extract all links from markdown content
- * Supports wiki-style [[links]] and @path references
+ * Check if a file should be excluded from the graph (root file of a non-selected profile)
  */
-export const extractLinks = (content: string): string[] => {
-  const links: string[] = [];
-  resetPatterns();
-
-  // Wiki-style links: [[path/to/file]]
-  let match;
-  while ((match = LINK_PATTERNS.wikiLink.exec(content)) !== null) {
-    links.push(match[1]);
-  }
+const shouldExcludeFile = (file: AgentFile, parseTarget: ParseMode): boolean => {
+  if (isProfileRootFile(file.path, getProfile(parseTarget))) return false;
 
-  // Backtick-wrapped @links: `@/path/to/file`
-  while ((match = LINK_PATTERNS.backtickAtLink.exec(content)) !== null) {
-    links.push(match[1]);
-  }
+  return PROFILES.some(
+    (profile) => profile.id !== parseTarget && isProfileRootFile(file.path, profile)
+  );
+};
 
-  // Plain @links (avoid duplicates from backtick matches)
-  while ((match = LINK_PATTERNS.atLink.exec(content)) !== null) {
-    if (!links.includes(match[1])) {
-      links.push(match[1]);
-    }
-  }
+/**
+ * Check if a file is an instruction file that takes part in the given parse mode
+ */
+export const isInstructionFile = (file: AgentFile, parseTarget: ParseMode): boolean => {
+  return isInstructionPath(file.path) && !shouldExcludeFile(file, parseTarget);
+};
 
-  // Backtick-wrapped paths without @: `specs/auth/spec.md`
-  while ((match = LINK_PATTERNS.backtickPath.exec(content)) !== null) {
-    if (!links.includes(match[1])) {
-      links.push(match[1]);
-    }
-  }
+/**
+ * Check if a path is a markdown or instruction file that can become a graph node
+ */
+const isDocumentPath = (path: string): boolean => {
+  return path.toLowerCase().endsWith(".md") || isInstructionPath(path);
+};
 
-  return links;
+/**
+ * Check if a resolved path is expected to point at a markdown or instruction file
+ * (explicit .md extension, an instruction file path, or no extension at all)
+ */
+const isMarkdownReference = (resolvedPath: string): boolean => {
+  const fileName = resolvedPath.split("/").pop() ?? "";
+  return isDocumentPath(resolvedPath) || !fileName.includes(".");
 };
 
 /**
- * Check if a file is an allowed type for graph parsing
+ * Check if a reference that didn't resolve to a document looks like a file or directory
+ * path (e.g., "src/config/schema.ts" or "scripts/") rather than a mention like "@team"
  */
-const isAllowedFileType = (fileName: string): boolean => {
-  const lowerName = fileName.toLowerCase();
-  return FILE_TYPES.ALLOWED_TYPES.some(
-    (type) => lowerName === type.toLowerCase()
-  );
+const isProbeablePath = (resolvedPath: string): boolean => {
+  if (!resolvedPath || isDocumentPath(resolvedPath)) return false;
+  // Paths outside the repository can't be checked
+  if (resolvedPath.split("/").includes("..")) return false;
+  return resolvedPath.includes("/") || /\.[a-z0-9]+$/i.test(resolvedPath);
 };
 
 /**
- * Check if a file is in the root directory
+ * Node ID of a referenced path (directory references may end in "/")
  */
-const isRootFile = (file: AgentFile): boolean => {
-  return !file.directory || file.directory === "";
+const toLeafPath = (resolvedPath: string): string => resolvedPath.replace(/\/+$/, "");
+
+// Node types of referenced paths by what the file system says they are
+const LEAF_NODE_TYPES: Record<PathKind, GraphNodeType> = {
+  file: "sourceFile",
+  directory: "directory",
+  missing: "missing",
 };
 
 /**
- * Check if a file should be excluded from the graph (root file of non-selected mode)
+ * Collect referenced paths that are neither scanned documents nor external links
+ * Check them with probePaths and pass the result to buildGraphData as referencedPaths
  */
-const shouldExcludeFile = (file: AgentFile, parseTarget: ParseMode): boolean => {
-  if (!isRootFile(file)) return false;
+export const collectReferencedPaths = (
+  files: AgentFile[],
+  parseTarget: ParseMode
+): Set<string> => {
+  const index = buildResolutionIndex(files, getMemberProfiles(parseTarget));
+  const config = getRepoConfig(files);
+  const paths = new Set<string>();
+
+  for (const file of files) {
+    if (!isInstructionFile(file, parseTarget)) continue;
+
+    for (const { kind, link } of extractFileReferences(file, config)) {
+      if (isExternalLink(link) || isHomeLink(link)) continue;
 
-  const fileName = file.name.toLowerCase();
-  const isAgentOrClaude =
-    fileName === "claude.md" || fileName === "agents.md";
+      const resolvedPath = resolvePath(file.path, link, kind, config.aliases);
+      if (!resolveReference(index, resolvedPath) && isProbeablePath(resolvedPath)) {
+        paths.add(toLeafPath(resolvedPath));
+      }
+    }
+  }
 
-  return isAgentOrClaude && fileName !== parseTarget.toLowerCase();
+  return paths;
 };
 
 /**
- * Try to find a target file in the file map
- * Supports exact match and fuzzy match with .md extension
+ * Options for building graph data
  */
-const findTargetFile = (
-  resolvedPath: string,
-  fileMap: Map<string, AgentFile>
-): AgentFile | undefined => {
-  // Try exact match first
-  const exactMatch = fileMap.get(resolvedPath);
-  if (exactMatch) return exactMatch;
-
-  // Try with .md extension
-  return Array.from(fileMap.values()).find(
-    (f) => f.path === resolvedPath || f.path === `${resolvedPath}.md`
-  );
-};
+export interface GraphOptions {
+  /**
+   * What referenced non-document paths are on disk (from collectReferencedPaths and
+   * probePaths). When given, those references become leaf nodes.
+   */
+  referencedPaths?: Map<string, PathKind>;
+  /** Add implicit links from nested instruction files to those of enclosing directories */
+  inheritance?: boolean;
+  /**
+   * Documents split into one node per heading (by path). References from them start at
+   * the section they are written in, and #anchor references to them land on the section.
+   */
+  sections?: ReadonlySet<string>;
+}
 
 /**
- * Build graph data (nodes and links) from agent files
+ * Build graph data (nodes, links, unresolved references and external links) from agent files
  */
 export const buildGraphData = (
   files: AgentFile[],
-  parseTarget: ParseMode
-): { nodes: GraphNode[]; links: GraphLink[] } => {
-  const fileMap = new Map(files.map((f) => [f.path, f]));
+  parseTarget: ParseMode,
+  options: GraphOptions = {}
+): GraphData => {
   const nodesMap = new Map<string, GraphNode>();
   const links: GraphLink[] = [];
-  const linkSet = new Set<string>();
+  const linkMap = new Map<string, GraphLink>();
+  const unresolved: UnresolvedReference[] = [];
+  const externalLinks: ExternalLink[] = [];
+  const caseMismatches: CaseMismatch[] = [];
+  const targetProfile = getProfile(parseTarget);
+  const memberProfiles = getMemberProfiles(parseTarget);
+  const config = getRepoConfig(files);
+  const index = buildResolutionIndex(files, memberProfiles);
+
+  // Sections of the documents split by heading, parsed once per file
+  const sectionCache = new Map<string, DocumentSection[]>();
+  const getSections = (file: AgentFile): DocumentSection[] => {
+    if (!options.sections?.has(file.path) || !file.content) return [];
+    if (!sectionCache.has(file.path)) sectionCache.set(file.path, extractSections(file.content));
+    return sectionCache.get(file.path)!;
+  };
+
+  // Links between files of different ecosystems of a combined mode are bridges
+  const getMemberIndex = (path: string): number =>
+    memberProfiles.findIndex((profile) => isProfileFile(path, profile));
+  const isBridge = (sourcePath: string, targetPath: string): boolean => {
+    if (memberProfiles.length < 2) return false;
+    const sourceIndex = getMemberIndex(sourcePath);
+    const targetIndex = getMemberIndex(targetPath);
+    return sourceIndex >= 0 && targetIndex >= 0 && sourceIndex !== targetIndex;
+  };
+
+  // Display name: parent directory plus file name
+  const getDisplayName = (file: AgentFile): string =>
+    file.directory ? `${file.directory.split("/").pop()}/${file.name}` : file.name;
 
   // Create or get a node for a file
   const getOrCreateNode = (file: AgentFile, isSource: boolean): GraphNode => {
     const existingNode = nodesMap.get(file.path);
     if (existingNode) return existingNode;
 
+    // Profile root files, plus the profile's files in directories configured as roots
     const isRootOfTarget =
-      isRootFile(file) &&
-      file.name.toLowerCase() === parseTarget.toLowerCase();
-
-    const displayName = file.directory
-      ? `${file.directory.split("/").pop()}/${file.name}`
-      : file.name;
+      isProfileRootFile(file.path, targetProfile) ||
+      (config.roots.includes(file.directory) && isProfileFile(file.path, targetProfile));
 
     const node: GraphNode = {
       id: file.path,
-      name: displayName,
+      name: getDisplayName(file),
       group: 1,
       file,
       val: isSource ? 2 : 1,
       isRoot: isRootOfTarget,
+      type: "document",
     };
 
     nodesMap.set(file.path, node);
     return node;
   };
 
+  // Create or get a leaf node for a referenced path that isn't a scanned document
+  const getOrCreateLeafNode = (path: string, kind: PathKind): GraphNode => {
+    const existingNode = nodesMap.get(path);
+    if (existingNode) return existingNode;
+
+    const slash = path.lastIndexOf("/");
+    const file: AgentFile = {
+      path,
+      name: path.slice(slash + 1),
+      directory: slash < 0 ? "" : path.slice(0, slash),
+    };
+
+    const node: GraphNode = {
+      id: path,
+      name: kind === "directory" ? `${getDisplayName(file)}/` : getDisplayName(file),
+      group: 1,
+      file,
+      val: 1,
+      isRoot: false,
+      type: LEAF_NODE_TYPES[kind],
+    };
+
+    nodesMap.set(path, node);
+    return node;
+  };
+
+  // Create or get the node of one section of a document split by heading
+  const getOrCreateSectionNode = (file: AgentFile, section: DocumentSection): GraphNode => {
+    const id = `${file.path}#${section.slug}`;
+    const existingNode = nodesMap.get(id);
+    if (existingNode) return existingNode;
+
+    const node: GraphNode = {
+      id,
+      name: section.text,
+      group: 1,
+      file,
+      val: 1,
+      isRoot: false,
+      type: "section",
+      section,
+    };
+
+    nodesMap.set(id, node);
+    return node;
+  };
+
+  // One link per node pair, annotated with every reference behind it
+  const addLink = (
+    sourceNode: GraphNode,
+    targetNode: GraphNode,
+    occurrence: LinkOccurrence,
+    anchor: string | undefined
+  ): void => {
+    const linkKey = `${sourceNode.id}->${targetNode.id}`;
+    const existingLink = linkMap.get(linkKey);
+    if (existingLink) {
+      existingLink.occurrences.push(occurrence);
+      existingLink.count += 1;
+      if (!existingLink.kinds.includes(occurrence.kind)) existingLink.kinds.push(occurrence.kind);
+      if (anchor && !existingLink.anchors.includes(anchor)) existingLink.anchors.push(anchor);
+      return;
+    }
+
+    const link: GraphLink = {
+      source: sourceNode.id,
+      target: targetNode.id,
+      anchors: anchor ? [anchor] : [],
+      kinds: [occurrence.kind],
+      count: 1,
+      occurrences: [occurrence],
+      bridge: isBridge(sourceNode.file.path, targetNode.file.path),
+    };
+    linkMap.set(linkKey, link);
+    links.push(link);
+
+    // Increase node values based on connections
+    sourceNode.val += 1;
+    targetNode.val += 1;
+  };
+
   // Process each source file
   for (const sourceFile of files) {
-    // Only process CLAUDE.md and AGENTS.md files
-    if (!isAllowedFileType(sourceFile.name)) continue;
-
-    // Skip root file of non-selected mode
-    if (shouldExcludeFile(sourceFile, parseTarget)) continue;
+    // Only process instruction files, skipping root files of non-selected profiles
+    if (!isInstructionFile(sourceFile, parseTarget)) continue;
 
     // Skip files without content
     if (!sourceFile.content) continue;
 
-    const sourceNode = getOrCreateNode(sourceFile, true);
-    const rawLinks = extractLinks(sourceFile.content);
+    const fileNode = getOrCreateNode(sourceFile, true);
+    const sourceSections = getSections(sourceFile);
+    const references = extractFileReferences(sourceFile, config);
+
+    for (const { kind, raw, link: rawLink, anchor, offset, line, column, heading } of references) {
+      // In a file split by heading, the reference starts at its section
+      const sourceSection = findSectionAt(sourceSections, offset);
+      const sourceNode = sourceSection ? getOrCreateSectionNode(sourceFile, sourceSection) : fileNode;
+
+      // Keep http(s) links and home-directory paths out of the graph, but list them per file
+      if (isExternalLink(rawLink) || isHomeLink(rawLink)) {
+        const url = rawLink.replace(/^@/, "");
+        const linkKind = isExternalLink(rawLink) ? "url" : "home";
+        externalLinks.push({ source: sourceFile.path, url, kind: linkKind, line, column });
+        continue;
+      }
 
-    for (const rawLink of rawLinks) {
-      const resolvedPath = resolvePath(sourceFile.path, rawLink);
-      const target = findTargetFile(resolvedPath, fileMap);
+      const resolvedPath = resolvePath(sourceFile.path, rawLink, kind, config.aliases);
+      const resolution = resolveReference(index, resolvedPath);
+      const target = resolution?.file;
+      const occurrence: LinkOccurrence = { kind, raw, line, column };
+
+      if (!target) {
+        // Referenced source files and directories become leaf nodes when probed
+        const leafPath = toLeafPath(resolvedPath);
+        const pathKind = isProbeablePath(resolvedPath)
+          ? options.referencedPaths?.get(leafPath)
+          : undefined;
+        if (pathKind) {
+          addLink(sourceNode, getOrCreateLeafNode(leafPath, pathKind), occurrence, anchor);
+        }
 
-      if (!target) continue;
+        // Record every occurrence of a missing markdown target or probed path
+        if (pathKind === "missing" || (!pathKind && isMarkdownReference(resolvedPath))) {
+          unresolved.push({
+            source: sourceFile.path,
+            reference: rawLink,
+            kind,
+            resolvedPath,
+            line,
+            column,
+            heading,
+          });
+        }
+        continue;
+      }
 
-      // Only allow .md files as targets
-      if (!target.name.toLowerCase().endsWith(".md")) continue;
+      // Only allow markdown and instruction files as targets
+      if (!isDocumentPath(target.path)) continue;
 
       // Skip excluded files
       if (shouldExcludeFile(target, parseTarget)) continue;
@@ -219,30 +425,128 @@ export const buildGraphData = (
       // Avoid self-loops
       if (sourceFile.path === target.path) continue;
 
-      // Avoid duplicate links
-      const linkKey = `${sourceFile.path}->${target.path}`;
-      if (linkSet.has(linkKey)) continue;
+      if (resolution.caseMismatch) {
+        occurrence.caseMismatch = true;
+        caseMismatches.push({
+          source: sourceFile.path,
+          reference: rawLink,
+          resolvedPath,
+          target: target.path,
+          line,
+          column,
+        });
+      }
+
+      // An anchor into a file split by heading lands on that section
+      const targetSection = anchor ? findSectionByAnchor(getSections(target), anchor) : undefined;
+      const targetNode = targetSection
+        ? getOrCreateSectionNode(target, targetSection)
+        : getOrCreateNode(target, false);
 
-      linkSet.add(linkKey);
-      const targetNode = getOrCreateNode(target, false);
+      addLink(sourceNode, targetNode, occurrence, anchor);
+    }
+  }
 
+  // Files split by heading keep their node as a hub that holds every section
+  for (const node of Array.from(nodesMap.values())) {
+    if (node.type !== "document") continue;
+    for (const section of getSections(node.file)) {
       links.push({
-        source: sourceFile.path,
-        target: target.path,
+        source: node.id,
+        target: getOrCreateSectionNode(node.file, section).id,
+        anchors: [],
+        kinds: [],
+        count: 0,
+        occurrences: [],
+        contains: true,
       });
+    }
+  }
 
-      // Increase node values based on connections
-      sourceNode.val += 1;
-      targetNode.val += 1;
+  // Implicit links follow the directory lookup of the selected profile
+  if (options.inheritance) {
+    for (const { source, target, kind } of findInheritance(files, targetProfile)) {
+      links.push({
+        source: getOrCreateNode(source, true).id,
+        target: getOrCreateNode(target, false).id,
+        anchors: [],
+        kinds: [],
+        count: 0,
+        occurrences: [],
+        inheritance: kind,
+      });
     }
   }
 
   return {
     nodes: Array.from(nodesMap.values()),
     links,
+    unresolved,
+    externalLinks,
+    caseMismatches,
   };
 };
 
+/**
+ * Map each document to the documents its @ imports point at, in the order first written
+ * Unlike the graph, every markdown file is a source, since agents follow imports from any file
+ */
+export const buildImportMap = (files: AgentFile[]): Map<string, string[]> => {
+  const index = buildResolutionIndex(files);
+  const config = getRepoConfig(files);
+  const imports = new Map<string, string[]>();
+
+  for (const file of files) {
+    if (!isDocumentPath(file.path)) continue;
+
+    const targets: string[] = [];
+    for (const { kind, link } of extractFileReferences(file, config)) {
+      if (kind !== "atImport") continue;
+
+      if (isHomeLink(link)) continue;
+
+      const target = resolveReference(index, resolvePath(file.path, link, kind, config.aliases))?.file;
+      if (!target || !isDocumentPath(target.path) || target.path === file.path) continue;
+      if (!targets.includes(target.path)) targets.push(target.path);
+    }
+    if (targets.length > 0) imports.set(file.path, targets);
+  }
+
+  return imports;
+};
+
+/**
+ * Find the shortest @ import chain from a set of start files to each file they reach
+ * Chains run from a start file to the file itself. Files more than maxDepth imports deep
+ * are included but not followed, so the deepest chains end one import past the limit.
+ */
+export const findImportChains = (
+  imports: Map<string, string[]>,
+  starts: string[],
+  maxDepth = Infinity
+): Map<string, string[]> => {
+  const chains = new Map<string, string[]>();
+  for (const start of starts) {
+    if (!chains.has(start)) chains.set(start, [start]);
+  }
+
+  // Breadth-first, so each file is reached through its shortest chain
+  const queue = Array.from(chains.keys());
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const chain = chains.get(current)!;
+    if (chain.length - 1 > maxDepth) continue;
+
+    for (const target of imports.get(current) ?? []) {
+      if (chains.has(target)) continue;
+      chains.set(target, [...chain, target]);
+      queue.push(target);
+    }
+  }
+
+  return chains;
+};
+
 /**
  * Build a hierarchical file tree from a flat list of files
  */
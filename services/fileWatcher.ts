@@ -0,0 +1,159 @@
+/**
+ * Workspace watching service
+ * Detects added, removed and modified markdown files by comparing lastModified
+ * timestamps, re-reading only the files that changed
+ */
+
+import { AgentFile, ScanDirectoryHandle } from "../types";
+import { WATCH } from "../constants";
+import { scanDirectory } from "./directoryScanner";
+import { isNativeDirectoryHandle } from "./directoryAdapters";
+import { parseFrontmatter } from "./frontmatter";
+
+/**
+ * Differences between the loaded files and the files on disk
+ */
+export interface WorkspaceChanges {
+  /** New files, with content loaded */
+  added: AgentFile[];
+  /** Changed files, with fresh content */
+  modified: AgentFile[];
+  /** Paths of files that no longer exist */
+  removed: string[];
+}
+
+/**
+ * Check if a change set is empty
+ */
+export const hasChanges = (changes: WorkspaceChanges): boolean =>
+  changes.added.length > 0 || changes.modified.length > 0 || changes.removed.length > 0;
+
+/**
+ * Compare loaded files against the directory and read content of changed files only
+ */
+export const diffWorkspace = async (
+  dirHandle: ScanDirectoryHandle,
+  previous: AgentFile[]
+): Promise<WorkspaceChanges> => {
+  const previousByPath = new Map(previous.map((f) => [f.path, f]));
+  const scanned = await scanDirectory(dirHandle);
+  const changes: WorkspaceChanges = { added: [], modified: [], removed: [] };
+
+  // An empty scan of a populated workspace is treated as a transient read failure
+  if (scanned.length === 0 && previous.length > 0) return changes;
+
+  await Promise.all(
+    scanned.map(async (file) => {
+      if (!file.fileHandle) return;
+      const fileObj = await file.fileHandle.getFile();
+      const before = previousByPath.get(file.path);
+
+      if (before && before.lastModified === fileObj.lastModified) return;
+
+      const content = await fileObj.text();
+      const updated: AgentFile = {
+        ...file,
+        content,
+        frontmatter: parseFrontmatter(content)?.data,
+        lastModified: fileObj.lastModified,
+      };
+      if (before) {
+        changes.modified.push(updated);
+      } else {
+        changes.added.push(updated);
+      }
+    })
+  );
+
+  const scannedPaths = new Set(scanned.map((f) => f.path));
+  changes.removed = previous.map((f) => f.path).filter((p) => !scannedPaths.has(p));
+
+  return changes;
+};
+
+/**
+ * Apply a change set to a file list, keeping the original order of unchanged files
+ */
+export const applyWorkspaceChanges = (
+  files: AgentFile[],
+  changes: WorkspaceChanges
+): AgentFile[] => {
+  const removed = new Set(changes.removed);
+  const modified = new Map(changes.modified.map((f) => [f.path, f]));
+
+  return [
+    ...files.filter((f) => !removed.has(f.path)).map((f) => modified.get(f.path) ?? f),
+    ...changes.added,
+  ];
+};
+
+/**
+ * Watch a directory for changes
+ * Uses FileSystemObserver where available and polling otherwise
+ * Returns a function that stops watching
+ */
+export const watchWorkspace = (
+  dirHandle: ScanDirectoryHandle,
+  getFiles: () => AgentFile[],
+  onChanges: (changes: WorkspaceChanges) => void
+): (() => void) => {
+  let stopped = false;
+  let running = false;
+  // A notification arrived during a comparison, which may have read the files before it
+  let pending = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Run one comparison at a time, then one more if changes were notified meanwhile;
+  // skip results that arrive after stopping
+  const check = async () => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+    try {
+      const changes = await diffWorkspace(dirHandle, getFiles());
+      if (!stopped && hasChanges(changes)) onChanges(changes);
+    } catch (err) {
+      console.warn("Failed to check workspace for changes:", err);
+    } finally {
+      running = false;
+    }
+
+    if (pending) {
+      pending = false;
+      // Debounced like a notification, so the applied changes reach getFiles first
+      schedule(WATCH.OBSERVER_DEBOUNCE_MS, false);
+    }
+  };
+
+  const schedule = (delay: number, repeat: boolean) => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(async () => {
+      await check();
+      if (repeat) schedule(delay, repeat);
+    }, delay);
+  };
+
+  const Observer = window.FileSystemObserver;
+  let observer: FileSystemObserver | null = null;
+
+  if (Observer && isNativeDirectoryHandle(dirHandle)) {
+    observer = new Observer(() => schedule(WATCH.OBSERVER_DEBOUNCE_MS, false));
+    observer.observe(dirHandle, { recursive: true }).catch((err) => {
+      // Fall back to polling if the observer cannot watch this directory
+      console.warn("FileSystemObserver unavailable, polling instead:", err);
+      observer = null;
+      schedule(WATCH.POLL_INTERVAL_MS, true);
+    });
+  } else {
+    schedule(WATCH.POLL_INTERVAL_MS, true);
+  }
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    observer?.disconnect();
+  };
+};
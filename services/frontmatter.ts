@@ -0,0 +1,171 @@
+/**
+ * YAML frontmatter parsing
+ * Reads the leading `---` block of AGENTS.md files, subagents, skills and Cursor rules.
+ * Only the flat subset these files use is understood: scalars, quoted strings, block
+ * scalars (| and >) and lists written inline ([a, b]) or as "- item" lines. Values are
+ * kept as written; nested mappings are skipped.
+ */
+
+import { AgentFile, FrontmatterData, FrontmatterValue } from "../types";
+import { COLORS } from "../constants";
+
+export interface Frontmatter {
+  data: FrontmatterData;
+  /** Offset in the content where the markdown body starts */
+  bodyOffset: number;
+}
+
+// Leading --- block, possibly empty
+const FRONTMATTER_BLOCK = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)/;
+const KEY_LINE = /^([A-Za-z0-9_][\w.-]*)[ \t]*:(?:[ \t]+(.*))?$/;
+const BLOCK_SCALAR = /^[|>][+-]?$/;
+
+/**
+ * Remove matching quotes, or a trailing comment from an unquoted value
+ */
+const unquote = (value: string): string => {
+  const trimmed = value.trim();
+  const quote = trimmed[0];
+  if ((quote === '"' || quote === "'") && trimmed.endsWith(quote) && trimmed.length > 1) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed.replace(/\s+#.*$/, "");
+};
+
+/**
+ * Split an inline list ([a, "b, c"]) into its items
+ */
+const parseFlowList = (value: string): string[] => {
+  const items: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (const char of value.slice(1, -1)) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ",") {
+      items.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map(unquote).filter((item) => item !== "");
+};
+
+/**
+ * Parse the body of a frontmatter block
+ */
+const parseFields = (source: string): FrontmatterData => {
+  const data: FrontmatterData = {};
+  const lines = source.split(/\r?\n/);
+  // Indented lines, blank lines and list items belong to the key above them
+  const isNested = (line: string | undefined): boolean =>
+    line !== undefined && (line.trim() === "" || /^([ \t]|-(\s|$))/.test(line));
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = KEY_LINE.exec(lines[i]);
+    if (!match) continue;
+
+    const [, key, rawValue = ""] = match;
+    const value = rawValue.trim();
+
+    const nested: string[] = [];
+    while (isNested(lines[i + 1])) nested.push(lines[++i]);
+
+    if (BLOCK_SCALAR.test(value)) {
+      const text = nested.map((line) => line.trim());
+      data[key] = (value.startsWith("|") ? text.join("\n") : text.join(" ")).trim();
+    } else if (value.startsWith("[") && value.endsWith("]")) {
+      data[key] = parseFlowList(value);
+    } else if (value !== "") {
+      data[key] = unquote(value);
+    } else {
+      const items = nested.filter((line) => /^\s*-(\s|$)/.test(line));
+      if (items.length > 0) {
+        data[key] = items.map((line) => unquote(line.replace(/^\s*-\s*/, "")));
+      }
+    }
+  }
+
+  return data;
+};
+
+/**
+ * Parse the frontmatter at the start of a file's content (undefined when there is none)
+ */
+export const parseFrontmatter = (content: string): Frontmatter | undefined => {
+  const match = FRONTMATTER_BLOCK.exec(content);
+  if (!match) return undefined;
+
+  return { data: parseFields(match[1] ?? ""), bodyOffset: match[0].length };
+};
+
+/**
+ * Format a frontmatter value for display
+ */
+export const formatFrontmatterValue = (value: FrontmatterValue): string =>
+  Array.isArray(value) ? value.join(", ") : value;
+
+/**
+ * Frontmatter keys used by any of the files, alphabetically
+ */
+export const getFrontmatterFields = (files: AgentFile[]): string[] => {
+  const fields = new Set<string>();
+  for (const file of files) {
+    for (const key of Object.keys(file.frontmatter ?? {})) fields.add(key);
+  }
+  return Array.from(fields).sort((a, b) => a.localeCompare(b));
+};
+
+/**
+ * Color files by the value of one frontmatter field
+ * The most common values get the palette colors in order; the rest share one color
+ */
+export const colorByFrontmatterField = (
+  files: AgentFile[],
+  field: string
+): { colors: Map<string, string>; legend: { label: string; color: string }[] } => {
+  const counts = new Map<string, number>();
+  for (const file of files) {
+    const value = file.frontmatter?.[field];
+    if (value === undefined) continue;
+    const label = formatFrontmatterValue(value);
+    counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+
+  const palette = COLORS.categorical.values;
+  const ranked = Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const valueColors = new Map(
+    ranked.map(([label], index) => [label, palette[index] ?? COLORS.categorical.other])
+  );
+
+  const colors = new Map<string, string>();
+  for (const file of files) {
+    const value = file.frontmatter?.[field];
+    colors.set(
+      file.path,
+      value === undefined
+        ? COLORS.categorical.unset
+        : valueColors.get(formatFrontmatterValue(value))!
+    );
+  }
+
+  const legend: { label: string; color: string }[] = ranked
+    .slice(0, palette.length)
+    .map(([label]) => ({ label, color: valueColors.get(label)! }));
+  if (ranked.length > palette.length) {
+    legend.push({ label: `${ranked.length - palette.length} more`, color: COLORS.categorical.other });
+  }
+  if (files.some((file) => file.frontmatter?.[field] === undefined)) {
+    legend.push({ label: `No ${field}`, color: COLORS.categorical.unset });
+  }
+
+  return { colors, legend };
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { compileGitignorePattern, parseGitignore, shouldIgnore } from "./gitignore";
+
+// Ignore rules of a single root .gitignore
+const rootRules = (content: string) => new Map([["", parseGitignore(content)]]);
+
+describe("compileGitignorePattern", () => {
+  it("skips blank lines and comments", () => {
+    expect(compileGitignorePattern("")).toBeNull();
+    expect(compileGitignorePattern("   ")).toBeNull();
+    expect(compileGitignorePattern("# notes.md")).toBeNull();
+  });
+
+  it("treats an escaped # or ! as a literal", () => {
+    expect(compileGitignorePattern("\\#notes.md")?.regex.test("#notes.md")).toBe(true);
+    const rule = compileGitignorePattern("\\!important.md");
+    expect(rule?.negated).toBe(false);
+    expect(rule?.regex.test("!important.md")).toBe(true);
+  });
+
+  it("keeps escaped trailing spaces only", () => {
+    expect(compileGitignorePattern("notes.md   ")?.regex.test("notes.md")).toBe(true);
+    expect(compileGitignorePattern("notes.md\\ ")?.regex.test("notes.md ")).toBe(true);
+  });
+});
+
+describe("shouldIgnore", () => {
+  it("matches unanchored patterns at any depth", () => {
+    const rules = rootRules("notes.md");
+    expect(shouldIgnore("notes.md", false, rules)).toBe(true);
+    expect(shouldIgnore("docs/deep/notes.md", false, rules)).toBe(true);
+  });
+
+  it("matches anchored patterns only from the .gitignore directory", () => {
+    const leading = rootRules("/TODO.md");
+    expect(shouldIgnore("TODO.md", false, leading)).toBe(true);
+    expect(shouldIgnore("docs/TODO.md", false, leading)).toBe(false);
+
+    // A separator in the middle anchors too
+    const middle = rootRules("docs/*.md");
+    expect(shouldIgnore("docs/a.md", false, middle)).toBe(true);
+    expect(shouldIgnore("packages/docs/a.md", false, middle)).toBe(false);
+  });
+
+  it("matches directory-only patterns against directories alone", () => {
+    const rules = rootRules("drafts/");
+    expect(shouldIgnore("drafts", true, rules)).toBe(true);
+    expect(shouldIgnore("docs/drafts", true, rules)).toBe(true);
+    expect(shouldIgnore("drafts", false, rules)).toBe(false);
+  });
+
+  it("expands ** across directory levels", () => {
+    const middle = rootRules("docs/**/private.md");
+    expect(shouldIgnore("docs/private.md", false, middle)).toBe(true);
+    expect(shouldIgnore("docs/a/b/private.md", false, middle)).toBe(true);
+    expect(shouldIgnore("other/private.md", false, middle)).toBe(false);
+
+    const leading = rootRules("**/scratch");
+    expect(shouldIgnore("scratch", true, leading)).toBe(true);
+    expect(shouldIgnore("src/scratch", true, leading)).toBe(true);
+
+    const trailing = rootRules("vendor/**");
+    expect(shouldIgnore("vendor/a/b.md", false, trailing)).toBe(true);
+    expect(shouldIgnore("vendor", true, trailing)).toBe(false);
+  });
+
+  it("keeps * and ? within one path segment", () => {
+    const rules = rootRules("/docs/*.md\n/notes-?.md");
+    expect(shouldIgnore("docs/a/b.md", false, rules)).toBe(false);
+    expect(shouldIgnore("notes-1.md", false, rules)).toBe(true);
+    expect(shouldIgnore("notes-10.md", false, rules)).toBe(false);
+  });
+
+  it("supports character classes", () => {
+    const rules = rootRules("draft[0-9].md\nnote[[:upper:]].md\nv[!a-z].md");
+    expect(shouldIgnore("draft7.md", false, rules)).toBe(true);
+    expect(shouldIgnore("draftx.md", false, rules)).toBe(false);
+    expect(shouldIgnore("noteA.md", false, rules)).toBe(true);
+    expect(shouldIgnore("notea.md", false, rules)).toBe(false);
+    expect(shouldIgnore("v1.md", false, rules)).toBe(true);
+    expect(shouldIgnore("vx.md", false, rules)).toBe(false);
+  });
+
+  it("re-includes negated paths, with the last matching rule winning", () => {
+    const rules = rootRules("tmp-*.md\n!tmp-keep.md");
+    expect(shouldIgnore("tmp-a.md", false, rules)).toBe(true);
+    expect(shouldIgnore("tmp-keep.md", false, rules)).toBe(false);
+
+    const reversed = rootRules("!tmp-keep.md\ntmp-*.md");
+    expect(shouldIgnore("tmp-keep.md", false, reversed)).toBe(true);
+  });
+
+  it("lets deeper .gitignore files override shallower ones", () => {
+    const rules = new Map([
+      ["", parseGitignore("notes.md\n*.draft.md")],
+      ["packages/app", parseGitignore("!notes.md\n/local.md")],
+    ]);
+    expect(shouldIgnore("packages/app/notes.md", false, rules)).toBe(false);
+    expect(shouldIgnore("packages/notes.md", false, rules)).toBe(true);
+    expect(shouldIgnore("packages/app/x.draft.md", false, rules)).toBe(true);
+
+    // Nested rules are relative to their own directory and apply only inside it
+    expect(shouldIgnore("packages/app/local.md", false, rules)).toBe(true);
+    expect(shouldIgnore("packages/app/sub/local.md", false, rules)).toBe(false);
+    expect(shouldIgnore("packages/local.md", false, rules)).toBe(false);
+  });
+
+  it("cannot re-include a file inside an excluded directory", () => {
+    // The directory itself is ignored, so a scanner never descends to the negated file
+    const rules = rootRules("build/\n!build/keep.md");
+    expect(shouldIgnore("build", true, rules)).toBe(true);
+
+    // Excluding only the directory's contents leaves the directory, so negation works
+    const contents = rootRules("generated/*\n!generated/keep.md");
+    expect(shouldIgnore("generated", true, contents)).toBe(false);
+    expect(shouldIgnore("generated/keep.md", false, contents)).toBe(false);
+    expect(shouldIgnore("generated/other.md", false, contents)).toBe(true);
+  });
+});
@@ -1,104 +1,266 @@
 /**
  * Gitignore pattern matching utilities
- * Handles parsing and matching of .gitignore patterns
+ * Implements the pattern format documented in gitignore(5): negation, anchoring,
+ * directory-only patterns, escapes, character classes, ** wildcards and
+ * last-match-wins precedence across nested .gitignore files
  */
 
 /**
- * Parse .gitignore file content into an array of patterns
- * Filters out empty lines and comments
+ * A compiled gitignore pattern
  */
-export const parseGitignore = (content: string): string[] => {
-  return content
-    .split("\n")
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith("#"));
+export interface GitignoreRule {
+  /** Pattern line as written (after trailing-space trimming) */
+  pattern: string;
+  /** Pattern starts with "!" and re-includes matching paths */
+  negated: boolean;
+  /** Pattern ends with "/" and only matches directories */
+  directoryOnly: boolean;
+  /** Regular expression matched against paths relative to the .gitignore directory */
+  regex: RegExp;
+}
+
+// POSIX character classes supported inside [...] brackets
+const POSIX_CLASSES: Record<string, string> = {
+  alnum: "a-zA-Z0-9",
+  alpha: "a-zA-Z",
+  blank: " \\t",
+  cntrl: "\\x00-\\x1f\\x7f",
+  digit: "0-9",
+  graph: "\\x21-\\x7e",
+  lower: "a-z",
+  print: "\\x20-\\x7e",
+  punct: "!-\\/:-@\\[-`{-~",
+  space: " \\t\\n\\r\\f\\v",
+  upper: "A-Z",
+  xdigit: "0-9a-fA-F",
+};
+
+/**
+ * Escape a literal character for use in a RegExp
+ */
+const escapeRegex = (char: string): string => char.replace(/[\\^$.*+?()[\]{}|/-]/g, "\\$&");
+
+/**
+ * Remove trailing spaces unless they are escaped with a backslash
+ */
+const trimTrailingSpaces = (line: string): string => {
+  let end = line.length;
+  while (end > 0 && line[end - 1] === " ") {
+    // Count backslashes before the space; an odd count escapes it
+    let slashes = 0;
+    while (end - 2 - slashes >= 0 && line[end - 2 - slashes] === "\\") slashes++;
+    if (slashes % 2 === 1) break;
+    end--;
+  }
+  return line.slice(0, end);
+};
+
+/**
+ * Convert a bracket expression starting at pattern[start] === "[" into a RegExp class
+ * Returns null when the bracket is not closed, in which case "[" is literal
+ */
+const parseBracket = (
+  pattern: string,
+  start: number
+): { regex: string; end: number } | null => {
+  let i = start + 1;
+  let negated = false;
+  if (pattern[i] === "!" || pattern[i] === "^") {
+    negated = true;
+    i++;
+  }
+
+  let body = "";
+  let first = true;
+  while (i < pattern.length) {
+    const char = pattern[i];
+
+    // "]" closes the bracket unless it is the first member
+    if (char === "]" && !first) {
+      const regex = `(?!/)[${negated ? "^" : ""}${body}]`;
+      return { regex, end: i };
+    }
+
+    if (char === "[" && pattern[i + 1] === ":") {
+      const close = pattern.indexOf(":]", i + 2);
+      const className = close >= 0 ? pattern.slice(i + 2, close) : "";
+      if (POSIX_CLASSES[className]) {
+        body += POSIX_CLASSES[className];
+        i = close + 2;
+        first = false;
+        continue;
+      }
+    }
+
+    if (char === "\\" && i + 1 < pattern.length) {
+      body += escapeRegex(pattern[i + 1]);
+      i += 2;
+    } else if (char === "-" && !first && pattern[i + 1] !== "]") {
+      body += "-";
+      i++;
+    } else {
+      body += escapeRegex(char);
+      i++;
+    }
+    first = false;
+  }
+
+  return null;
 };
 
 /**
- * Convert a gitignore pattern to a RegExp
- * Handles glob patterns like *, **, ?, and directory-specific patterns
+ * Convert a gitignore glob (without leading "!", leading "/" or trailing "/") to a RegExp source
  */
-const patternToRegex = (pattern: string, isRooted: boolean): RegExp | null => {
-  let regexStr = pattern
-    .replace(/\./g, "\\.") // Escape dots
-    .replace(/\*\*/g, "{{GLOBSTAR}}") // Temp placeholder for **
-    .replace(/\*/g, "[^/]*") // * matches anything except /
-    .replace(/\?/g, "[^/]") // ? matches single char except /
-    .replace(/\{\{GLOBSTAR\}\}/g, ".*"); // ** matches everything
-
-  // If pattern doesn't contain /, it can match at any level
-  if (!pattern.includes("/") && !isRooted) {
-    regexStr = `(^|.*/)?${regexStr}$`;
-  } else if (isRooted) {
-    regexStr = `^${regexStr}$`;
-  } else {
-    regexStr = `(^|/)${regexStr}$`;
+const globToRegex = (glob: string): string => {
+  let regex = "";
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === "\\") {
+      // Backslash escapes the next character; a trailing backslash matches nothing
+      if (i + 1 >= glob.length) return "(?!)";
+      regex += escapeRegex(glob[i + 1]);
+      i += 2;
+    } else if (char === "*") {
+      let stars = 0;
+      while (glob[i + stars] === "*") stars++;
+
+      const atSegmentStart = i === 0 || glob[i - 1] === "/";
+      const atSegmentEnd = i + stars === glob.length || glob[i + stars] === "/";
+
+      if (stars >= 2 && atSegmentStart && atSegmentEnd) {
+        if (i + stars === glob.length) {
+          // "**" alone or trailing "/**": everything (inside)
+          regex += ".*";
+          i += stars;
+        } else {
+          // Leading "**/" or middle "/**/": zero or more directories
+          regex += "(?:.*/)?";
+          i += stars + 1;
+        }
+      } else {
+        // Other consecutive asterisks behave like a single "*"
+        regex += "[^/]*";
+        i += stars;
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+      i++;
+    } else if (char === "[") {
+      const bracket = parseBracket(glob, i);
+      if (bracket) {
+        regex += bracket.regex;
+        i = bracket.end + 1;
+      } else {
+        regex += "\\[";
+        i++;
+      }
+    } else {
+      regex += escapeRegex(char);
+      i++;
+    }
   }
 
+  return regex;
+};
+
+/**
+ * Compile a single .gitignore line into a rule
+ * Returns null for blank lines, comments and invalid patterns
+ */
+export const compileGitignorePattern = (line: string): GitignoreRule | null => {
+  // Comments start with an unescaped "#"
+  if (line.startsWith("#")) return null;
+
+  let pattern = trimTrailingSpaces(line.replace(/\r$/, ""));
+  if (!pattern) return null;
+  const written = pattern;
+
+  const negated = pattern.startsWith("!");
+  if (negated) pattern = pattern.slice(1);
+
+  const directoryOnly = pattern.endsWith("/") && !pattern.endsWith("\\/");
+  if (directoryOnly) pattern = pattern.slice(0, -1);
+
+  // A separator at the start or middle anchors the pattern to the .gitignore directory
+  const anchored = pattern.includes("/");
+  if (pattern.startsWith("/")) pattern = pattern.slice(1);
+  if (!pattern) return null;
+
+  const body = globToRegex(pattern);
+  const source = anchored ? `^${body}$` : `^(?:.*/)?${body}$`;
+
   try {
-    return new RegExp(regexStr);
+    return { pattern: written, negated, directoryOnly, regex: new RegExp(source) };
   } catch {
     return null;
   }
 };
 
 /**
- * Check if a path matches a single gitignore pattern
+ * Compile a gitignore-style glob for matching repository paths outside of ignore files
+ * (e.g., instruction-file profiles). Returns null for empty or negated patterns.
+ */
+export const compileGlob = (pattern: string, ignoreCase: boolean = false): RegExp | null => {
+  const rule = compileGitignorePattern(pattern);
+  if (!rule || rule.negated) return null;
+  return ignoreCase ? new RegExp(rule.regex.source, "i") : rule.regex;
+};
+
+/**
+ * Parse .gitignore file content into compiled rules, preserving order
  */
-export const matchesGitignorePattern = (
+export const parseGitignore = (content: string): GitignoreRule[] => {
+  return content
+    .split("\n")
+    .map(compileGitignorePattern)
+    .filter((rule): rule is GitignoreRule => rule !== null);
+};
+
+/**
+ * Check if a path (relative to the rule's .gitignore directory) matches a rule
+ * Negation is not applied here; see shouldIgnore for precedence
+ */
+export const matchesGitignoreRule = (
   path: string,
-  pattern: string,
+  rule: GitignoreRule,
   isDirectory: boolean
 ): boolean => {
-  // Handle negation patterns (skip for simplicity)
-  if (pattern.startsWith("!")) return false;
-
-  // Remove trailing slash for directory-only patterns
-  const dirOnly = pattern.endsWith("/");
-  let cleanPattern = dirOnly ? pattern.slice(0, -1) : pattern;
-
-  // If pattern is directory-only but entry is a file, no match
-  if (dirOnly && !isDirectory) return false;
-
-  // Handle patterns starting with /
-  const isRooted = cleanPattern.startsWith("/");
-  if (isRooted) {
-    cleanPattern = cleanPattern.slice(1);
-  }
-
-  const regex = patternToRegex(cleanPattern, isRooted);
-  return regex ? regex.test(path) : false;
+  if (rule.directoryOnly && !isDirectory) return false;
+  return rule.regex.test(path);
 };
 
 /**
- * Check if a path should be ignored based on multiple gitignore pattern sets
- * Patterns are organized by directory, with each directory's patterns applying
- * to paths within that directory
+ * Check if a path should be ignored based on rules collected per directory
+ * Rules from a directory apply only to paths inside it. Deeper directories take
+ * precedence over shallower ones, and within a directory the last matching rule wins.
+ * Callers are expected not to descend into ignored directories, which gives git's
+ * "cannot re-include a file whose parent directory is excluded" behavior.
  */
 export const shouldIgnore = (
   relativePath: string,
   isDirectory: boolean,
-  gitignorePatterns: Map<string, string[]>
+  gitignoreRules: Map<string, GitignoreRule[]>
 ): boolean => {
-  for (const [ignoreDir, patterns] of gitignorePatterns) {
-    // Only apply patterns from parent directories
-    const isApplicable =
-      relativePath.startsWith(ignoreDir) ||
-      ignoreDir === "" ||
-      relativePath === ignoreDir;
+  const applicable = Array.from(gitignoreRules.entries())
+    .filter(([ignoreDir]) => ignoreDir === "" || relativePath.startsWith(`${ignoreDir}/`))
+    .sort(([a], [b]) => a.length - b.length);
 
-    if (!isApplicable) continue;
+  let ignored = false;
 
+  for (const [ignoreDir, rules] of applicable) {
     const pathRelativeToIgnore = ignoreDir
       ? relativePath.slice(ignoreDir.length + 1)
       : relativePath;
 
-    for (const pattern of patterns) {
-      if (matchesGitignorePattern(pathRelativeToIgnore, pattern, isDirectory)) {
-        return true;
+    for (const rule of rules) {
+      if (matchesGitignoreRule(pathRelativeToIgnore, rule, isDirectory)) {
+        ignored = !rule.negated;
       }
     }
   }
 
-  return false;
+  return ignored;
 };
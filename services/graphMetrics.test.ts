@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { GraphData } from "../types";
+import { computeGraphMetrics } from "./graphMetrics";
+
+// Graph of documents with one reference per edge; the first file is the root
+const makeGraph = (edges: [string, string][]): GraphData => {
+  const paths = Array.from(new Set(edges.flat()));
+  return {
+    nodes: paths.map((path, index) => ({
+      id: path,
+      name: path,
+      group: 1,
+      file: { path, name: path, directory: "" },
+      val: 1,
+      isRoot: index === 0,
+      type: "document",
+    })),
+    links: edges.map(([source, target]) => ({
+      source,
+      target,
+      anchors: [],
+      kinds: ["atImport"],
+      count: 1,
+      occurrences: [],
+    })),
+    unresolved: [],
+    externalLinks: [],
+    caseMismatches: [],
+  };
+};
+
+const betweenness = (graph: GraphData) =>
+  Object.fromEntries(
+    Array.from(computeGraphMetrics(graph), ([path, metrics]) => [path, metrics.betweenness])
+  );
+
+describe("computeGraphMetrics", () => {
+  it("measures a chain", () => {
+    const metrics = computeGraphMetrics(
+      makeGraph([
+        ["a", "b"],
+        ["b", "c"],
+        ["c", "d"],
+      ])
+    );
+
+    expect(Array.from(metrics.values(), (m) => m.depth)).toEqual([0, 1, 2, 3]);
+    expect(Array.from(metrics.values(), (m) => m.fanOut)).toEqual([3, 2, 1, 0]);
+    // b and c each lie on 2 of the (n-1)(n-2) = 6 ordered pairs of other files
+    expect(Array.from(metrics.values(), (m) => m.betweenness)).toEqual([0, 1 / 3, 1 / 3, 0]);
+  });
+
+  it("splits a diamond's shortest paths between its two middles", () => {
+    const graph = makeGraph([
+      ["a", "b"],
+      ["a", "c"],
+      ["b", "d"],
+      ["c", "d"],
+    ]);
+    const metrics = computeGraphMetrics(graph);
+
+    expect(metrics.get("d")).toMatchObject({ inDegree: 2, outDegree: 0, depth: 2 });
+    expect(metrics.get("a")).toMatchObject({ inDegree: 0, outDegree: 2, fanOut: 3 });
+    // Half of the single a -> d pair runs through each middle file
+    expect(betweenness(graph)).toEqual({ a: 0, b: 1 / 12, c: 1 / 12, d: 0 });
+  });
+
+  it("puts every path between the leaves of a star through its hub", () => {
+    const graph = makeGraph(
+      ["a", "b", "c"].flatMap((leaf): [string, string][] => [
+        ["hub", leaf],
+        [leaf, "hub"],
+      ])
+    );
+
+    expect(betweenness(graph)).toEqual({ hub: 1, a: 0, b: 0, c: 0 });
+  });
+
+  it("gives cycle members equal betweenness", () => {
+    // With two files there is no third one for a path to pass through
+    expect(
+      betweenness(
+        makeGraph([
+          ["a", "b"],
+          ["b", "a"],
+        ])
+      )
+    ).toEqual({ a: 0, b: 0 });
+
+    // Each file lies on one of the two ordered pairs of the other files
+    expect(
+      betweenness(
+        makeGraph([
+          ["a", "b"],
+          ["b", "c"],
+          ["c", "a"],
+        ])
+      )
+    ).toEqual({ a: 0.5, b: 0.5, c: 0.5 });
+  });
+
+  it("marks files no root reaches as unreachable", () => {
+    const metrics = computeGraphMetrics(
+      makeGraph([
+        ["root", "a"],
+        ["island", "b"],
+      ])
+    );
+
+    expect(metrics.get("a")).toMatchObject({ depth: 1, reachable: true });
+    expect(metrics.get("island")).toMatchObject({ depth: undefined, reachable: false });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Graph metrics service
+ * Measures how central each file is in the reference graph: its degree, its distance
+ * from the root files, how many files it leads to, and how many shortest paths between
+ * other files run through it (Brandes' betweenness centrality). Hub files score high
+ * on fan-out and betweenness, so edits to them reach the most other files.
+ */
+
+import { GraphData, GraphMetric, GraphMetrics, GraphNode } from "../types";
+import { COLORS } from "../constants";
+
+/**
+ * Build file-level adjacency from the explicit references of a graph
+ * Section nodes count as their file; implicit hierarchy and section links are ignored
+ */
+const buildFileAdjacency = (graph: GraphData): Map<string, string[]> => {
+  const pathById = new Map(graph.nodes.map((node) => [node.id, node.file.path]));
+  const getPath = (end: string | GraphNode): string =>
+    typeof end === "string" ? (pathById.get(end) ?? end) : end.file.path;
+
+  const adjacency = new Map<string, string[]>();
+  for (const link of graph.links) {
+    if (link.inheritance || link.contains) continue;
+
+    const source = getPath(link.source);
+    const target = getPath(link.target);
+    if (source === target) continue;
+
+    const targets = adjacency.get(source) ?? [];
+    if (!targets.includes(target)) targets.push(target);
+    adjacency.set(source, targets);
+  }
+
+  return adjacency;
+};
+
+/**
+ * Breadth-first distances from a set of start files
+ */
+const findDistances = (adjacency: Map<string, string[]>, starts: string[]): Map<string, number> => {
+  const distances = new Map(starts.map((start) => [start, 0]));
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const target of adjacency.get(current) ?? []) {
+      if (!distances.has(target)) {
+        distances.set(target, distances.get(current)! + 1);
+        queue.push(target);
+      }
+    }
+  }
+  return distances;
+};
+
+/**
+ * Betweenness centrality of every file, normalized to 0-1 (Brandes' algorithm)
+ */
+const computeBetweenness = (
+  paths: string[],
+  adjacency: Map<string, string[]>
+): Map<string, number> => {
+  const centrality = new Map(paths.map((path) => [path, 0]));
+
+  for (const source of paths) {
+    // Shortest-path counts and predecessors from this source
+    const order: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const pathCounts = new Map([[source, 1]]);
+    const distances = new Map([[source, 0]]);
+    const queue = [source];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      order.push(current);
+      for (const target of adjacency.get(current) ?? []) {
+        if (!distances.has(target)) {
+          distances.set(target, distances.get(current)! + 1);
+          queue.push(target);
+        }
+        if (distances.get(target) === distances.get(current)! + 1) {
+          pathCounts.set(target, (pathCounts.get(target) ?? 0) + pathCounts.get(current)!);
+          predecessors.set(target, [...(predecessors.get(target) ?? []), current]);
+        }
+      }
+    }
+
+    // Accumulate dependencies from the farthest files back
+    const dependency = new Map<string, number>();
+    for (const target of order.reverse()) {
+      for (const predecessor of predecessors.get(target) ?? []) {
+        const share =
+          (pathCounts.get(predecessor)! / pathCounts.get(target)!) * (1 + (dependency.get(target) ?? 0));
+        dependency.set(predecessor, (dependency.get(predecessor) ?? 0) + share);
+      }
+      if (target !== source) {
+        centrality.set(target, centrality.get(target)! + (dependency.get(target) ?? 0));
+      }
+    }
+  }
+
+  // Ordered pairs of other files a path could connect
+  const pairs = (paths.length - 1) * (paths.length - 2);
+  if (pairs > 0) {
+    for (const [path, value] of centrality) centrality.set(path, value / pairs);
+  }
+  return centrality;
+};
+
+/**
+ * Compute graph metrics for every file and referenced path in the graph, by path
+ */
+export const computeGraphMetrics = (graph: GraphData): Map<string, GraphMetrics> => {
+  const adjacency = buildFileAdjacency(graph);
+  const paths = Array.from(new Set(graph.nodes.map((node) => node.file.path)));
+
+  const inDegrees = new Map<string, number>();
+  for (const targets of adjacency.values()) {
+    for (const target of targets) inDegrees.set(target, (inDegrees.get(target) ?? 0) + 1);
+  }
+
+  const roots = Array.from(
+    new Set(graph.nodes.filter((node) => node.isRoot).map((node) => node.file.path))
+  );
+  const depths = findDistances(adjacency, roots);
+  const betweenness = computeBetweenness(paths, adjacency);
+
+  return new Map(
+    paths.map((path) => [
+      path,
+      {
+        inDegree: inDegrees.get(path) ?? 0,
+        outDegree: adjacency.get(path)?.length ?? 0,
+        depth: depths.get(path),
+        reachable: depths.has(path),
+        betweenness: betweenness.get(path) ?? 0,
+        fanOut: findDistances(adjacency, [path]).size - 1,
+      },
+    ])
+  );
+};
+
+/**
+ * Format a metric value for display
+ */
+export const formatGraphMetric = (metric: GraphMetric, value: number | undefined): string => {
+  if (value === undefined) return "—";
+  return metric === "betweenness" ? value.toFixed(3) : String(value);
+};
+
+/**
+ * Blend two #rrggbb colors
+ */
+const mixColors = (from: string, to: string, amount: number): string => {
+  const channels = [1, 3, 5].map((i) => {
+    const a = parseInt(from.slice(i, i + 2), 16);
+    const b = parseInt(to.slice(i, i + 2), 16);
+    return Math.round(a + (b - a) * amount)
+      .toString(16)
+      .padStart(2, "0");
+  });
+  return `#${channels.join("")}`;
+};
+
+/**
+ * Color files on a gradient from the lowest to the highest value of one metric
+ */
+export const colorByGraphMetric = (
+  metrics: Map<string, GraphMetrics>,
+  metric: GraphMetric
+): { colors: Map<string, string>; legend: { label: string; color: string }[] } => {
+  const values = Array.from(metrics.values(), (m) => m[metric]).filter(
+    (value): value is number => value !== undefined
+  );
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+
+  const colors = new Map<string, string>();
+  for (const [path, m] of metrics) {
+    const value = m[metric];
+    colors.set(
+      path,
+      value === undefined
+        ? COLORS.metric.none
+        : mixColors(COLORS.metric.low, COLORS.metric.high, max > min ? (value - min) / (max - min) : 0)
+    );
+  }
+
+  const legend: { label: string; color: string }[] = [
+    { label: `Lowest (${formatGraphMetric(metric, min)})`, color: COLORS.metric.low },
+    { label: `Highest (${formatGraphMetric(metric, max)})`, color: COLORS.metric.high },
+  ];
+  if (values.length < metrics.size) legend.push({ label: "Unreachable", color: COLORS.metric.none });
+
+  return { colors, legend };
+};
@@ -0,0 +1,66 @@
+/**
+ * Directory inheritance between instruction files
+ * Agents load instruction files from the directories enclosing the working directory,
+ * so a nested file is implicitly tied to the nearest enclosing one even without a reference
+ */
+
+import { AgentFile, InheritanceKind } from "../types";
+import { InstructionProfile, ParseMode, getProfile } from "../constants";
+import { getScopeDirectory, isProfileFile } from "./profiles";
+
+export interface InheritanceRelation {
+  /** Nested file */
+  source: AgentFile;
+  /** File in the nearest enclosing directory that has the profile's files */
+  target: AgentFile;
+  kind: InheritanceKind;
+}
+
+/**
+ * Find the implicit relations between a profile's nested files and their enclosing files
+ * Profiles that load every enclosing file inherit; nearest-file profiles override;
+ * profiles that only read repository-level files have none. Combined modes relate
+ * files within each ecosystem only.
+ */
+export const findInheritance = (
+  files: AgentFile[],
+  profile: InstructionProfile
+): InheritanceRelation[] => {
+  // Each ecosystem of a combined mode follows its own lookup rules
+  if (profile.combines) {
+    return profile.combines.flatMap((id) => findInheritance(files, getProfile(id as ParseMode)));
+  }
+  if (profile.contextScope === "root") return [];
+  const kind: InheritanceKind = profile.contextScope === "nearest" ? "overrides" : "inherits";
+
+  const byScope = new Map<string, AgentFile[]>();
+  for (const file of files) {
+    if (!isProfileFile(file.path, profile)) continue;
+
+    const scope = getScopeDirectory(file.path);
+    const scoped = byScope.get(scope) ?? [];
+    scoped.push(file);
+    byScope.set(scope, scoped);
+  }
+
+  const relations: InheritanceRelation[] = [];
+  for (const [scope, scoped] of byScope) {
+    if (scope === "") continue;
+
+    // Walk up to the nearest enclosing directory with files of the profile
+    let parent = scope;
+    let targets: AgentFile[] | undefined;
+    while (parent !== "" && !targets) {
+      parent = parent.includes("/") ? parent.slice(0, parent.lastIndexOf("/")) : "";
+      targets = byScope.get(parent);
+    }
+
+    for (const source of scoped) {
+      for (const target of targets ?? []) {
+        relations.push({ source, target, kind });
+      }
+    }
+  }
+
+  return relations;
+};
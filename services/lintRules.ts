@@ -0,0 +1,254 @@
+/**
+ * Built-in lint rules
+ * Each rule looks at the loaded documents, the reference graph, or both
+ */
+
+import type { Root } from "mdast";
+import { toString } from "mdast-util-to-string";
+import { visit } from "unist-util-visit";
+import { AgentFile, GraphData, GraphNode } from "../types";
+import { LINT, getMemberProfiles, getProfile } from "../constants";
+import { buildImportMap, findImportChains } from "./fileParser";
+import { getPosition, parseMarkdown } from "./referenceExtractor";
+import { describeUnresolved, findOrphanedFiles } from "./referenceChecker";
+import { findCycles } from "./cycles";
+import { parseFrontmatter } from "./frontmatter";
+import { isProfileFile } from "./profiles";
+import type { LintFinding, LintRule } from "./linter";
+
+// @path to a document, as written inside code
+const CODE_IMPORT = /(?:^|[\s`(])(@(?:~\/|[/.])?[\w\-./]*\.mdc?)(?![\w/])/gm;
+
+// Home directories on macOS, Linux and Windows (/Users/alice/, /home/alice/, C:\Users\alice\)
+const ABSOLUTE_PATH =
+  /(?<=^|[\s`'"(<[=:])(?:\/Users\/|\/home\/|[A-Za-z]:\\Users\\)[^/\\\s`'")\]>]+[/\\](?:\S*[^\s.,;:!?)])?/gm;
+
+/**
+ * Parse each document's markdown once, shared by the rules
+ * (files are replaced rather than changed when their content is reloaded)
+ */
+const markdownCache = new WeakMap<AgentFile, Root>();
+const getMarkdown = (file: AgentFile): Root => {
+  if (!markdownCache.has(file)) markdownCache.set(file, parseMarkdown(file.content ?? ""));
+  return markdownCache.get(file)!;
+};
+
+/**
+ * Find where one file @ imports another, from the graph's link occurrences
+ */
+const findImportLocation = (
+  graph: GraphData,
+  sourcePath: string,
+  targetPath: string
+): { line?: number; column?: number } => {
+  const pathById = new Map(graph.nodes.map((node) => [node.id, node.file.path]));
+  const getPath = (end: string | GraphNode): string =>
+    typeof end === "string" ? (pathById.get(end) ?? end) : end.file.path;
+
+  for (const link of graph.links) {
+    if (getPath(link.source) !== sourcePath || getPath(link.target) !== targetPath) continue;
+    const occurrence = link.occurrences.find((o) => o.kind === "atImport");
+    if (occurrence) return { line: occurrence.line, column: occurrence.column };
+  }
+  return {};
+};
+
+/**
+ * Normalize a list item for comparison: case, whitespace and closing punctuation ignored
+ */
+const normalizeBullet = (text: string): string =>
+  text.toLowerCase().replace(/\s+/g, " ").replace(/[.;:!]+$/, "").trim();
+
+const fileLength: LintRule = {
+  id: "file-length",
+  description: "Instruction file is longer than the configured line limit",
+  severity: "warning",
+  check: ({ documents, config }) =>
+    documents.flatMap((file) => {
+      const content = file.content!;
+      const lines = content.split("\n").length - (content.endsWith("\n") ? 1 : 0);
+      if (lines <= config.maxLines) return [];
+      return [{ file: file.path, message: `${lines} lines (limit ${config.maxLines})` }];
+    }),
+};
+
+const unresolvedReference: LintRule = {
+  id: "unresolved-reference",
+  description: "Reference points at a file that does not exist",
+  severity: "error",
+  check: ({ graph }) =>
+    graph.unresolved.map((ref) => ({
+      file: ref.source,
+      line: ref.line,
+      column: ref.column,
+      message: describeUnresolved(ref),
+    })),
+};
+
+const importDepth: LintRule = {
+  id: "import-depth",
+  description: "@ import chain is deeper than the agent expands",
+  severity: "warning",
+  check: ({ files, parseTarget, graph }) => {
+    const imports = buildImportMap(files);
+    const findings = new Map<string, LintFinding>();
+
+    for (const profile of getMemberProfiles(parseTarget)) {
+      // Profiles that don't expand imports have no depth to exceed
+      if (profile.maxImportDepth === 0) continue;
+
+      for (const start of files) {
+        if (!isProfileFile(start.path, profile)) continue;
+
+        // The same shortest chains the effective context loads files through
+        const chains = findImportChains(imports, [start.path], profile.maxImportDepth);
+        for (const [target, chain] of chains) {
+          const depth = chain.length - 1;
+          if (depth <= profile.maxImportDepth) continue;
+
+          const current = chain[chain.length - 2];
+          const key = `${current}\n${target}`;
+          if (findings.has(key)) continue;
+          findings.set(key, {
+            file: current,
+            ...findImportLocation(graph, current, target),
+            message: `${target} is ${depth} imports deep (${chain.join(" → ")}); ${
+              profile.label
+            } expands ${profile.maxImportDepth}`,
+          });
+        }
+      }
+    }
+
+    return Array.from(findings.values());
+  },
+};
+
+const referenceCycle: LintRule = {
+  id: "reference-cycle",
+  description: "Documents @ import each other in a loop",
+  severity: "warning",
+  check: ({ files }) =>
+    findCycles(files).map(({ members, path }) => {
+      const others = members.length - (path.length - 1);
+      return {
+        file: path[0],
+        message: `Import cycle: ${path.join(" → ")}${
+          others > 0 ? ` (${members.length} files in the loop)` : ""
+        }`,
+      };
+    }),
+};
+
+const orphanedFile: LintRule = {
+  id: "orphaned-file",
+  description: "Instruction file is not reachable from the root file",
+  severity: "error",
+  check: ({ files, parseTarget, graph }) =>
+    (findOrphanedFiles(files, parseTarget, graph) ?? []).map((file) => ({
+      file: file.path,
+      message: `Not reachable from the root ${getProfile(parseTarget).label} file`,
+    })),
+};
+
+const duplicateBullet: LintRule = {
+  id: "duplicate-bullet",
+  description: "The same list item appears in more than one file",
+  severity: "warning",
+  check: ({ documents }) => {
+    const firstSeen = new Map<string, { file: string; line: number }>();
+    const findings: LintFinding[] = [];
+
+    const sorted = [...documents].sort((a, b) => a.path.localeCompare(b.path));
+    for (const file of sorted) {
+      const bodyOffset = parseFrontmatter(file.content!)?.bodyOffset ?? 0;
+      const reported = new Set<string>();
+
+      visit(getMarkdown(file), "listItem", (item) => {
+        const start = item.position?.start;
+        const [paragraph] = item.children;
+        if (!start || (start.offset ?? 0) < bodyOffset || paragraph?.type !== "paragraph") return;
+
+        const text = normalizeBullet(toString(paragraph));
+        if (text.length < LINT.DUPLICATE_MIN_CHARS) return;
+
+        const original = firstSeen.get(text);
+        if (!original) {
+          firstSeen.set(text, { file: file.path, line: start.line });
+        } else if (original.file !== file.path && !reported.has(text)) {
+          reported.add(text);
+          findings.push({
+            file: file.path,
+            line: start.line,
+            column: start.column,
+            message: `Same instruction as ${original.file}:${original.line}`,
+          });
+        }
+      });
+    }
+
+    return findings;
+  },
+};
+
+const importInCode: LintRule = {
+  id: "import-in-code",
+  description: "@ import is inside code, where the agent does not expand it",
+  severity: "warning",
+  check: ({ documents, parseTarget }) => {
+    const expandsImports = getMemberProfiles(parseTarget).some(
+      (profile) =>
+        profile.maxImportDepth > 0 && (profile.linkSyntaxes as readonly string[]).includes("atImport")
+    );
+    if (!expandsImports) return [];
+
+    return documents.flatMap((file) => {
+      const content = file.content!;
+      const findings: LintFinding[] = [];
+
+      visit(getMarkdown(file), (node) => {
+        if (node.type !== "inlineCode" && node.type !== "code") return;
+        const start = node.position?.start.offset;
+        const end = node.position?.end.offset;
+        if (start === undefined || end === undefined) return;
+
+        const where = node.type === "code" ? "a code block" : "a code span";
+        for (const match of content.slice(start, end).matchAll(CODE_IMPORT)) {
+          const offset = start + match.index + match[0].indexOf(match[1]);
+          findings.push({
+            file: file.path,
+            ...getPosition(content, offset),
+            message: `${match[1]} is in ${where}, so it is not imported`,
+          });
+        }
+      });
+
+      return findings;
+    });
+  },
+};
+
+const absolutePath: LintRule = {
+  id: "absolute-path",
+  description: "Path points into one machine's home directory",
+  severity: "warning",
+  check: ({ documents }) =>
+    documents.flatMap((file) =>
+      Array.from(file.content!.matchAll(ABSOLUTE_PATH), (match) => ({
+        file: file.path,
+        ...getPosition(file.content!, match.index),
+        message: `${match[0]} only exists on one machine; use a repository-relative or ~/ path`,
+      }))
+    ),
+};
+
+export const BUILTIN_RULES: readonly LintRule[] = [
+  fileLength,
+  unresolvedReference,
+  importDepth,
+  referenceCycle,
+  orphanedFile,
+  duplicateBullet,
+  importInCode,
+  absolutePath,
+];
@@ -0,0 +1,104 @@
+/**
+ * Lint engine
+ * Runs rules over the loaded files and their reference graph. Each rule reports findings
+ * at a default severity, which the repository config can change or turn off per rule.
+ */
+
+import { AgentFile, GraphData, LintProblem, LintSeverity } from "../types";
+import { ParseMode } from "../constants";
+import { buildGraphData } from "./fileParser";
+import { LintConfig, getRepoConfig } from "./repoConfig";
+import { BUILTIN_RULES } from "./lintRules";
+
+/**
+ * Everything a rule can look at
+ */
+export interface LintContext {
+  /** Every loaded file */
+  files: AgentFile[];
+  /** Files drawn as documents in the graph, with content loaded */
+  documents: AgentFile[];
+  parseTarget: ParseMode;
+  graph: GraphData;
+  config: LintConfig;
+}
+
+/**
+ * A problem as reported by a rule, before its severity is applied
+ */
+export type LintFinding = Omit<LintProblem, "rule" | "severity">;
+
+export interface LintRule {
+  /** Identifier used in output and in the config's "lint.rules" */
+  id: string;
+  /** One-line description of what the rule reports */
+  description: string;
+  /** Severity unless the config overrides it */
+  severity: LintSeverity;
+  check: (context: LintContext) => LintFinding[];
+}
+
+export interface LintOptions {
+  /** Graph already built for the files (built from them when omitted) */
+  graph?: GraphData;
+  rules?: readonly LintRule[];
+}
+
+const SEVERITY_RANK: Record<LintSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Lint the files for a parse mode
+ * Returns the problems of every enabled rule, sorted by location
+ */
+export const runLint = (
+  files: AgentFile[],
+  parseTarget: ParseMode,
+  { graph = buildGraphData(files, parseTarget), rules = BUILTIN_RULES }: LintOptions = {}
+): LintProblem[] => {
+  const config = getRepoConfig(files).lint;
+  const documents = graph.nodes
+    .filter((node) => node.type === "document" && node.file.content !== undefined)
+    .map((node) => node.file);
+  const context: LintContext = { files, documents, parseTarget, graph, config };
+
+  const problems: LintProblem[] = [];
+  for (const rule of rules) {
+    const severity = config.rules[rule.id] ?? rule.severity;
+    if (severity === "off") continue;
+
+    for (const finding of rule.check(context)) {
+      problems.push({ rule: rule.id, severity, ...finding });
+    }
+  }
+
+  return problems.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0) ||
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+  );
+};
+
+/**
+ * The most severe problem of each file, for badges
+ */
+export const getFileSeverities = (problems: LintProblem[]): Map<string, LintSeverity> => {
+  const severities = new Map<string, LintSeverity>();
+  for (const { file, severity } of problems) {
+    const current = severities.get(file);
+    if (!current || SEVERITY_RANK[severity] < SEVERITY_RANK[current]) {
+      severities.set(file, severity);
+    }
+  }
+  return severities;
+};
+
+/**
+ * Count problems by severity
+ */
+export const countBySeverity = (problems: LintProblem[]): Record<LintSeverity, number> => {
+  const counts: Record<LintSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const { severity } of problems) counts[severity]++;
+  return counts;
+};
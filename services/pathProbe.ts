@@ -0,0 +1,53 @@
+/**
+ * Path probing service
+ * Checks whether referenced paths exist in a workspace by walking directory
+ * handles, without reading any file content
+ */
+
+import { PathKind, ScanDirectoryHandle } from "../types";
+
+/**
+ * Check a list of repository-relative paths against a directory tree
+ * Directory lookups are shared, so paths under the same directory cost one walk.
+ */
+export const probePaths = async (
+  dirHandle: ScanDirectoryHandle,
+  paths: Iterable<string>
+): Promise<Map<string, PathKind>> => {
+  const directories = new Map<string, Promise<ScanDirectoryHandle | null>>([
+    ["", Promise.resolve(dirHandle)],
+  ]);
+
+  // Resolve a directory path to its handle, or null if it doesn't exist
+  const getDirectory = (path: string): Promise<ScanDirectoryHandle | null> => {
+    const cached = directories.get(path);
+    if (cached) return cached;
+
+    const slash = path.lastIndexOf("/");
+    const lookup = getDirectory(slash < 0 ? "" : path.slice(0, slash)).then((parent) =>
+      parent ? parent.getDirectoryHandle(path.slice(slash + 1)).catch(() => null) : null
+    );
+    directories.set(path, lookup);
+    return lookup;
+  };
+
+  const probe = async (path: string): Promise<PathKind> => {
+    if (!path) return "missing";
+
+    const slash = path.lastIndexOf("/");
+    const parent = await getDirectory(slash < 0 ? "" : path.slice(0, slash));
+    if (!parent) return "missing";
+
+    const isFile = await parent.getFileHandle(path.slice(slash + 1)).then(
+      () => true,
+      () => false
+    );
+    if (isFile) return "file";
+
+    return (await getDirectory(path)) ? "directory" : "missing";
+  };
+
+  const uniquePaths = Array.from(new Set(paths));
+  const kinds = await Promise.all(uniquePaths.map(probe));
+  return new Map(uniquePaths.map((path, i) => [path, kinds[i]]));
+};
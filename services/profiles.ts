@@ -0,0 +1,67 @@
+/**
+ * Instruction-file profile matching
+ * Resolves which profile (CLAUDE.md, AGENTS.md, Cursor rules, ...) a path belongs to
+ */
+
+import { InstructionProfile, PROFILES } from "../constants";
+import { compileGlob } from "./gitignore";
+
+// Compiled glob cache, keyed by pattern
+const globCache = new Map<string, RegExp | null>();
+
+/**
+ * Find the first of the given profile globs a repository-relative path matches (-1 if none)
+ */
+const findGlobIndex = (path: string, patterns: readonly string[]): number =>
+  patterns.findIndex((pattern) => {
+    if (!globCache.has(pattern)) {
+      globCache.set(pattern, compileGlob(pattern, true));
+    }
+    return globCache.get(pattern)?.test(path) ?? false;
+  });
+
+/**
+ * Check if a repository-relative path matches any of the given profile globs
+ */
+const matchesAnyGlob = (path: string, patterns: readonly string[]): boolean =>
+  findGlobIndex(path, patterns) >= 0;
+
+/**
+ * Check if a path is an instruction file of the given profile
+ */
+export const isProfileFile = (path: string, profile: InstructionProfile): boolean =>
+  matchesAnyGlob(path, profile.filePatterns);
+
+/**
+ * Position of the profile file pattern a path matches, which orders files of one directory
+ * the way the profile lists them (e.g., CLAUDE.md before CLAUDE.local.md)
+ */
+export const getProfilePatternIndex = (path: string, profile: InstructionProfile): number =>
+  findGlobIndex(path, profile.filePatterns);
+
+/**
+ * Check if a path is a root file of the given profile
+ */
+export const isProfileRootFile = (path: string, profile: InstructionProfile): boolean =>
+  matchesAnyGlob(path, profile.rootPatterns);
+
+/**
+ * Find the profile an instruction file belongs to (first match wins)
+ */
+export const getFileProfile = (path: string): InstructionProfile | undefined =>
+  PROFILES.find((profile) => isProfileFile(path, profile));
+
+/**
+ * Check if a path is an instruction file of any profile
+ */
+export const isInstructionPath = (path: string): boolean => getFileProfile(path) !== undefined;
+
+/**
+ * Directory an instruction file applies to: its own directory, or for files kept in a
+ * dot-directory (.claude/, .github/instructions/, .cursor/rules/) the directory holding it
+ */
+export const getScopeDirectory = (path: string): string => {
+  const segments = path.split("/").slice(0, -1);
+  const dotIndex = segments.findIndex((segment) => segment.startsWith("."));
+  return segments.slice(0, dotIndex < 0 ? segments.length : dotIndex).join("/");
+};
@@ -0,0 +1,128 @@
+/**
+ * Reference checking service
+ * Reports broken references, references that only resolve when case is ignored and
+ * instruction files unreachable from the root, plus drifted directories in combined modes
+ */
+
+import { AgentFile, CheckIssue, GraphData, UnresolvedReference } from "../types";
+import { ParseMode, getProfile } from "../constants";
+import { buildGraphData, isInstructionFile } from "./fileParser";
+import { describeDrift, findDrift } from "./drift";
+
+/**
+ * Collect IDs of every node reachable from the given start nodes
+ */
+const findReachable = (graph: GraphData, startIds: string[]): Set<string> => {
+  const adjacency = new Map<string, string[]>();
+  for (const link of graph.links) {
+    const source = typeof link.source === "string" ? link.source : link.source.id;
+    const target = typeof link.target === "string" ? link.target : link.target.id;
+    const targets = adjacency.get(source) ?? [];
+    targets.push(target);
+    adjacency.set(source, targets);
+  }
+
+  const reachable = new Set(startIds);
+  const queue = [...startIds];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) ?? []) {
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return reachable;
+};
+
+/**
+ * Describe an unresolved reference, with the section it was written in
+ */
+export const describeUnresolved = (ref: UnresolvedReference): string =>
+  `Cannot resolve ${ref.reference} (looked for ${ref.resolvedPath})${
+    ref.heading ? ` in section "${ref.heading}"` : ""
+  }`;
+
+/**
+ * Find the instruction files not reachable from a root file
+ * Returns undefined when the graph has no root to start from
+ */
+export const findOrphanedFiles = (
+  files: AgentFile[],
+  parseTarget: ParseMode,
+  graph: GraphData
+): AgentFile[] | undefined => {
+  const rootIds = graph.nodes.filter((node) => node.isRoot).map((node) => node.id);
+  if (rootIds.length === 0) return undefined;
+
+  // A file counts as reached when any of its nodes (the file or a section) is
+  const reachableIds = findReachable(graph, rootIds);
+  const reachable = new Set(
+    graph.nodes.filter((node) => reachableIds.has(node.id)).map((node) => node.file.path)
+  );
+  return files.filter((file) => isInstructionFile(file, parseTarget) && !reachable.has(file.path));
+};
+
+/**
+ * Check references for a parse mode
+ * Returns unresolved references and orphaned instruction files, sorted by location
+ */
+export const checkReferences = (
+  files: AgentFile[],
+  parseTarget: ParseMode,
+  graph: GraphData = buildGraphData(files, parseTarget)
+): CheckIssue[] => {
+  const issues: CheckIssue[] = graph.unresolved.map((ref) => ({
+    rule: "unresolved-reference",
+    message: describeUnresolved(ref),
+    file: ref.source,
+    line: ref.line,
+    column: ref.column,
+  }));
+
+  // Resolved on case-insensitive file systems (macOS, Windows), but not on Linux or in CI
+  for (const mismatch of graph.caseMismatches) {
+    issues.push({
+      rule: "case-mismatch",
+      message: `${mismatch.reference} only matches ${mismatch.target} when case is ignored`,
+      file: mismatch.source,
+      line: mismatch.line,
+      column: mismatch.column,
+    });
+  }
+
+  const orphans = findOrphanedFiles(files, parseTarget, graph);
+  if (!orphans) {
+    issues.push({
+      rule: "missing-root",
+      message: `No root ${getProfile(parseTarget).label} file found; orphan detection skipped`,
+      file: parseTarget,
+    });
+  } else {
+    for (const file of orphans) {
+      issues.push({
+        rule: "orphaned-file",
+        message: `${file.path} is not reachable from the root ${getProfile(parseTarget).label} file`,
+        file: file.path,
+      });
+    }
+  }
+
+  // Combined modes also compare the ecosystems directory by directory
+  for (const drift of findDrift(files, parseTarget, graph)) {
+    issues.push({
+      rule: "ecosystem-drift",
+      message: describeDrift(drift),
+      file: drift.files[0].path,
+    });
+  }
+
+  return issues.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      (a.line ?? 0) - (b.line ?? 0) ||
+      (a.column ?? 0) - (b.column ?? 0)
+  );
+};
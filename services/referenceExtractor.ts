@@ -0,0 +1,276 @@
+/**
+ * Reference extraction service
+ * Parses markdown into an mdast tree and matches reference syntaxes only where they
+ * can be references: prose for @imports and [[wiki]] links, inline code for
+ * backtick-wrapped paths, and link nodes for [markdown](links). Code blocks and
+ * e-mail autolinks are skipped.
+ */
+
+import type { Root } from "mdast";
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import { toString } from "mdast-util-to-string";
+import { gfm } from "micromark-extension-gfm";
+import { SKIP, visit } from "unist-util-visit";
+import { MarkdownReference, ReferenceKind } from "../types";
+import { LinkSyntax } from "../constants";
+
+// Where a pattern may match: prose text or inline code spans
+type Scope = "text" | "inlineCode";
+
+interface ReferencePattern {
+  regex: RegExp;
+  kind: ReferenceKind;
+  scope: Scope;
+  /** Capture group holding the raw reference; the link is always group 1 */
+  rawGroup: 0 | 1;
+}
+
+// Regex patterns for link extraction (compiled once for performance)
+const LINK_PATTERNS = {
+  // [[wiki-style]] links (legacy AGENTS.md format)
+  wikiLink: { regex: /\[\[(.*?)\]\]/g, kind: "wiki", scope: "text", rawGroup: 0 },
+  // `@/path/to/file`, `@./path` or `@~/path` (backtick wrapped); agents don't expand
+  // imports in code spans, so these are path mentions rather than imports
+  backtickAtLink: {
+    regex: /`(@(?:~\/|[\/\.])?[a-zA-Z0-9_\-\.\/]+)`/g,
+    kind: "backtickPath",
+    scope: "inlineCode",
+    rawGroup: 0,
+  },
+  // @path without backticks
+  atLink: {
+    regex: /(?:^|[\s:])(@(?:~\/|[\/\.])?[a-zA-Z0-9_\-\.\/]+)/gm,
+    kind: "atImport",
+    scope: "text",
+    rawGroup: 1,
+  },
+  // `path/to/file.md` without @ prefix
+  backtickPath: {
+    regex: /`([a-zA-Z0-9_\-\.\/]+\.(md|ts|js|json|yaml|yml))`/g,
+    kind: "backtickPath",
+    scope: "inlineCode",
+    rawGroup: 0,
+  },
+} as const satisfies Record<string, ReferencePattern>;
+
+// Patterns used for each reference syntax, in matching priority order
+const SYNTAX_PATTERNS: Record<LinkSyntax, (keyof typeof LINK_PATTERNS)[]> = {
+  wiki: ["wikiLink"],
+  atImport: ["backtickAtLink", "atLink"],
+  backtickPath: ["backtickPath"],
+  // Read from link and definition nodes rather than matched with a regex
+  markdownLink: [],
+};
+
+// Every syntax any profile understands
+export const ALL_SYNTAXES = Object.keys(SYNTAX_PATTERNS) as LinkSyntax[];
+
+export interface ExtractOptions {
+  /** Reference syntaxes to recognize (all by default) */
+  syntaxes?: readonly LinkSyntax[];
+  /** Extra regexes; capture group 1 (or the whole match) is the link */
+  customPatterns?: readonly RegExp[];
+  /** Also match prose syntaxes inside fenced and indented code blocks */
+  includeCodeBlocks?: boolean;
+}
+
+interface SourceRange {
+  start: number;
+  end: number;
+  scope: Scope;
+}
+
+interface Heading {
+  offset: number;
+  text: string;
+}
+
+// Inline link or reference-style definition
+interface LinkNode {
+  url: string;
+  start: number;
+  end: number;
+}
+
+// URL schemes; only http(s) links are kept, as external links
+const URL_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+const EXTERNAL_URL = /^https?:\/\//i;
+const HOME_PATH = /^@?~\//;
+
+/**
+ * Check if a reference link is an external http(s) URL
+ */
+export const isExternalLink = (link: string): boolean => EXTERNAL_URL.test(link);
+
+/**
+ * Check if a reference points into the user's home directory (e.g., @~/.claude/notes.md)
+ */
+export const isHomeLink = (link: string): boolean => HOME_PATH.test(link);
+
+/**
+ * Split a "#anchor" fragment off a link
+ */
+const splitAnchor = (link: string): { link: string; anchor?: string } => {
+  const hash = link.indexOf("#");
+  if (hash < 0) return { link };
+  return { link: link.slice(0, hash), anchor: link.slice(hash + 1) || undefined };
+};
+
+/**
+ * Decode percent-escapes in a link destination (e.g., "my%20notes.md")
+ */
+const decodeLink = (url: string): string => {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export const getPosition = (
+  content: string,
+  offset: number
+): { line: number; column: number } => {
+  const before = content.slice(0, offset);
+  const line = before.split("\n").length;
+  const column = offset - before.lastIndexOf("\n");
+  return { line, column };
+};
+
+/**
+ * Parse markdown (with GitHub extensions, as rendered by the viewer)
+ */
+export const parseMarkdown = (content: string): Root =>
+  fromMarkdown(content, {
+    extensions: [gfm()],
+    mdastExtensions: [gfmFromMarkdown()],
+  });
+
+/**
+ * Collect the source ranges references may appear in, and the headings
+ */
+const collectRanges = (
+  tree: Root,
+  includeCodeBlocks: boolean
+): { ranges: SourceRange[]; headings: Heading[]; links: LinkNode[] } => {
+  const ranges: SourceRange[] = [];
+  const headings: Heading[] = [];
+  const links: LinkNode[] = [];
+
+  visit(tree, (node) => {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) return;
+
+    switch (node.type) {
+      case "heading":
+        headings.push({ offset: start, text: toString(node) });
+        break;
+      case "text":
+        ranges.push({ start, end, scope: "text" });
+        break;
+      case "inlineCode":
+        ranges.push({ start, end, scope: "inlineCode" });
+        break;
+      case "code":
+        if (includeCodeBlocks) ranges.push({ start, end, scope: "text" });
+        break;
+      case "link":
+        // E-mail autolinks (user@host) are not references
+        if (node.url.startsWith("mailto:")) return SKIP;
+        links.push({ url: node.url, start, end });
+        break;
+      case "definition":
+        links.push({ url: node.url, start, end });
+        break;
+    }
+  });
+
+  return { ranges, headings, links };
+};
+
+/**
+ * Extract all references from markdown content, one entry per occurrence
+ * Earlier patterns win overlaps: wiki links, `@links`, plain @links, `paths.md`, then custom
+ */
+export const extractReferences = (
+  content: string,
+  options: ExtractOptions = {}
+): MarkdownReference[] => {
+  const {
+    syntaxes = ALL_SYNTAXES,
+    customPatterns = [],
+    includeCodeBlocks = false,
+  } = options;
+
+  const { ranges, headings, links } = collectRanges(parseMarkdown(content), includeCodeBlocks);
+  const found: { kind: ReferenceKind; raw: string; link: string; start: number; end: number }[] =
+    [];
+
+  // Markdown links come first so paths written inside their text aren't counted twice
+  if (syntaxes.includes("markdownLink")) {
+    for (const { url, start, end } of links) {
+      // Skip in-page anchors and non-web schemes (mailto:, vscode:, ...)
+      if (!url || url.startsWith("#")) continue;
+      if (URL_SCHEME.test(url) && !isExternalLink(url)) continue;
+
+      const link = isExternalLink(url) ? url : decodeLink(url);
+      found.push({ kind: "markdownLink", raw: content.slice(start, end), link, start, end });
+    }
+  }
+
+  const patterns: ReferencePattern[] = [
+    ...ALL_SYNTAXES.filter((syntax) => syntaxes.includes(syntax)).flatMap((syntax) =>
+      SYNTAX_PATTERNS[syntax].map((name) => LINK_PATTERNS[name])
+    ),
+    ...customPatterns.map(
+      (regex): ReferencePattern => ({ regex, kind: "custom", scope: "text", rawGroup: 0 })
+    ),
+  ];
+
+  for (const pattern of patterns) {
+    const isCustom = pattern.kind === "custom";
+    pattern.regex.lastIndex = 0;
+
+    let match;
+    while ((match = pattern.regex.exec(content)) !== null) {
+      // Step past empty matches so they can't loop forever
+      if (match[0] === "") {
+        pattern.regex.lastIndex += 1;
+        continue;
+      }
+
+      const raw = match[pattern.rawGroup];
+      const link = match[1] ?? match[0];
+      const start = match.index + match[0].indexOf(raw);
+      const end = start + raw.length;
+
+      // Custom patterns may match prose or inline code; built-ins only their own scope
+      const inScope = ranges.some(
+        (range) =>
+          (isCustom || range.scope === pattern.scope) && start >= range.start && end <= range.end
+      );
+      if (!inScope) continue;
+
+      if (found.some((m) => start < m.end && end > m.start)) continue;
+      found.push({ kind: pattern.kind, raw, link, start, end });
+    }
+  }
+
+  return found
+    .sort((a, b) => a.start - b.start)
+    .map(({ kind, raw, link, start }) => ({
+      kind,
+      raw,
+      ...(isExternalLink(link) ? { link } : splitAnchor(link)),
+      offset: start,
+      ...getPosition(content, start),
+      heading: headings.filter((heading) => heading.offset <= start).pop()?.text,
+    }))
+    // In-page anchors such as [[#setup]] don't point at another file
+    .filter((reference) => reference.link !== "");
+};
@@ -0,0 +1,244 @@
+/**
+ * Repository configuration
+ * Reads the optional .agentlinkrc.json at the repository root so everyone
+ * scanning the same repository sees the same graph
+ */
+
+import { AgentFile, LintSeverity, ScanDirectoryHandle } from "../types";
+import { LINT, ParseMode, PROFILES, REPO_CONFIG } from "../constants";
+
+/**
+ * Linter settings
+ */
+export interface LintConfig {
+  /** Line limit for one file */
+  maxLines: number;
+  /** Severity overrides by rule ID; "off" disables a rule */
+  rules: Record<string, LintSeverity | "off">;
+}
+
+/**
+ * Validated repository configuration
+ */
+export interface RepoConfig {
+  /** Extra gitignore-style globs applied at the root, after .gitignore */
+  ignore: string[];
+  /** Directories ("" for the repository root) whose instruction files of the selected profile are roots */
+  roots: string[];
+  /** Custom reference regexes; capture group 1 (or the whole match) is the referenced path */
+  patterns: RegExp[];
+  /** Path prefix aliases, e.g. { "@shared/": "tools/agent-shared/" } */
+  aliases: Record<string, string>;
+  /** Also extract references from fenced and indented code blocks */
+  includeCodeBlocks: boolean;
+  /** Parse mode used when none was chosen for the workspace */
+  defaultMode?: ParseMode;
+  lint: LintConfig;
+}
+
+export const EMPTY_REPO_CONFIG: RepoConfig = {
+  ignore: [],
+  roots: [],
+  patterns: [],
+  aliases: {},
+  includeCodeBlocks: false,
+  lint: { maxLines: LINT.MAX_FILE_LINES, rules: {} },
+};
+
+/**
+ * Report a configuration problem without failing the scan
+ */
+const warn = (message: string): void => {
+  console.warn(`${REPO_CONFIG.FILE_NAME}: ${message}`);
+};
+
+/**
+ * Read a field that must be an array of strings
+ */
+const readStringArray = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    warn(`"${field}" must be an array of strings; ignoring it`);
+    return [];
+  }
+  return value;
+};
+
+/**
+ * Read a field that must be a boolean, defaulting to false
+ */
+const readBoolean = (value: unknown, field: string): boolean => {
+  if (value === undefined) return false;
+  if (typeof value !== "boolean") {
+    warn(`"${field}" must be true or false; ignoring it`);
+    return false;
+  }
+  return value;
+};
+
+/**
+ * Normalize a root directory to the form used by AgentFile.directory
+ */
+const normalizeDirectory = (dir: string): string => {
+  const trimmed = dir.trim().replace(/^\.?\/+|\/+$/g, "");
+  return trimmed === "." ? "" : trimmed;
+};
+
+/**
+ * Compile custom reference regexes, skipping invalid ones
+ */
+const compilePatterns = (sources: string[]): RegExp[] => {
+  return sources.flatMap((source) => {
+    try {
+      return [new RegExp(source, "gm")];
+    } catch (error) {
+      warn(`invalid pattern ${JSON.stringify(source)}: ${(error as Error).message}`);
+      return [];
+    }
+  });
+};
+
+/**
+ * Read the aliases object, keeping only string targets
+ */
+const readAliases = (value: unknown): Record<string, string> => {
+  if (value === undefined) return {};
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    warn(`"aliases" must be an object mapping prefixes to paths; ignoring it`);
+    return {};
+  }
+
+  const aliases: Record<string, string> = {};
+  for (const [prefix, target] of Object.entries(value)) {
+    if (typeof target === "string" && prefix) {
+      aliases[prefix] = target;
+    } else {
+      warn(`alias "${prefix}" must map to a path; ignoring it`);
+    }
+  }
+  return aliases;
+};
+
+/**
+ * Read the default parse mode, matching profile IDs case-insensitively
+ */
+const readDefaultMode = (value: unknown): ParseMode | undefined => {
+  if (value === undefined) return undefined;
+
+  const profile = PROFILES.find(
+    (p) => typeof value === "string" && p.id.toLowerCase() === value.toLowerCase()
+  );
+  if (!profile) {
+    warn(`unknown "defaultMode" ${JSON.stringify(value)}; expected one of: ${PROFILES.map((p) => p.id).join(", ")}`);
+  }
+  return profile?.id;
+};
+
+const LINT_LEVELS: readonly (LintSeverity | "off")[] = ["error", "warning", "info", "off"];
+
+/**
+ * Read the lint settings: a line limit and per-rule severities
+ */
+const readLint = (value: unknown): LintConfig => {
+  const lint: LintConfig = { maxLines: LINT.MAX_FILE_LINES, rules: {} };
+  if (value === undefined) return lint;
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    warn(`"lint" must be an object; ignoring it`);
+    return lint;
+  }
+
+  const { maxLines, rules } = value as Record<string, unknown>;
+  if (maxLines !== undefined) {
+    if (typeof maxLines === "number" && Number.isInteger(maxLines) && maxLines > 0) {
+      lint.maxLines = maxLines;
+    } else {
+      warn(`"lint.maxLines" must be a positive integer; ignoring it`);
+    }
+  }
+
+  if (rules !== undefined) {
+    if (typeof rules !== "object" || rules === null || Array.isArray(rules)) {
+      warn(`"lint.rules" must map rule IDs to ${LINT_LEVELS.join(", ")}; ignoring it`);
+    } else {
+      for (const [rule, level] of Object.entries(rules)) {
+        const match = LINT_LEVELS.find((l) => l === level);
+        if (match) {
+          lint.rules[rule] = match;
+        } else {
+          warn(`lint rule "${rule}" must be one of: ${LINT_LEVELS.join(", ")}; ignoring it`);
+        }
+      }
+    }
+  }
+
+  return lint;
+};
+
+/**
+ * Parse and validate configuration file content
+ * Invalid fields are reported and ignored; an unreadable file yields the empty config
+ */
+export const parseRepoConfig = (content: string): RepoConfig => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    warn(`invalid JSON: ${(error as Error).message}`);
+    return EMPTY_REPO_CONFIG;
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    warn("expected a JSON object");
+    return EMPTY_REPO_CONFIG;
+  }
+
+  const config = raw as Record<string, unknown>;
+  return {
+    ignore: readStringArray(config.ignore, "ignore"),
+    roots: readStringArray(config.roots, "roots").map(normalizeDirectory),
+    patterns: compilePatterns(readStringArray(config.patterns, "patterns")),
+    aliases: readAliases(config.aliases),
+    includeCodeBlocks: readBoolean(config.includeCodeBlocks, "includeCodeBlocks"),
+    defaultMode: readDefaultMode(config.defaultMode),
+    lint: readLint(config.lint),
+  };
+};
+
+/**
+ * Check if a scanned file is the repository configuration file
+ */
+export const isRepoConfigFile = (file: Pick<AgentFile, "path">): boolean => {
+  return file.path === REPO_CONFIG.FILE_NAME;
+};
+
+// Last parsed configuration, so scanning and repeated graph builds don't re-parse or re-warn
+let cached: { content: string; config: RepoConfig } | null = null;
+
+const parseCached = (content: string): RepoConfig => {
+  if (cached?.content !== content) {
+    cached = { content, config: parseRepoConfig(content) };
+  }
+  return cached.config;
+};
+
+/**
+ * Load the configuration file from the root of a directory handle
+ */
+export const loadRepoConfig = async (dirHandle: ScanDirectoryHandle): Promise<RepoConfig> => {
+  try {
+    const file = await (await dirHandle.getFileHandle(REPO_CONFIG.FILE_NAME)).getFile();
+    return parseCached(await file.text());
+  } catch {
+    // No configuration file
+    return EMPTY_REPO_CONFIG;
+  }
+};
+
+/**
+ * Get the configuration carried by a set of scanned files
+ * The scanner includes the root configuration file alongside the markdown files
+ */
+export const getRepoConfig = (files: AgentFile[]): RepoConfig => {
+  const content = files.find(isRepoConfigFile)?.content;
+  return content === undefined ? EMPTY_REPO_CONFIG : parseCached(content);
+};
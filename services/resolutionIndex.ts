@@ -0,0 +1,142 @@
+/**
+ * Reference resolution index
+ * Precomputes lookups from repository paths to files so each reference resolves in constant
+ * time: exact paths, extensionless document paths, directories (to their instruction file or
+ * README), and case-insensitive fallbacks for references written with the wrong case
+ */
+
+import { AgentFile } from "../types";
+import { InstructionProfile, PROFILES } from "../constants";
+import { getProfilePatternIndex, isProfileFile } from "./profiles";
+
+// How a resolved path was matched to a file
+export type ResolutionMatch =
+  | "exact" // the path itself
+  | "extension" // the path plus a document extension (docs/setup -> docs/setup.md)
+  | "directory"; // a directory, via its instruction file or README
+
+export interface Resolution {
+  file: AgentFile;
+  match: ResolutionMatch;
+  /** Only found by ignoring case, which breaks on case-sensitive file systems */
+  caseMismatch: boolean;
+}
+
+export interface ResolutionIndex {
+  /** Files by path */
+  paths: Map<string, AgentFile>;
+  /** Document files by path without their extension */
+  stems: Map<string, AgentFile>;
+  /** The file a directory reference lands on, by directory path */
+  directories: Map<string, AgentFile>;
+  /** Lowercased counterparts of the maps above (first file wins) */
+  lowerPaths: Map<string, AgentFile>;
+  lowerStems: Map<string, AgentFile>;
+  lowerDirectories: Map<string, AgentFile>;
+}
+
+// Extensions that may be left off a document reference
+const DOCUMENT_EXTENSION = /\.(md|mdc)$/i;
+
+const README = /^readme\.md$/i;
+
+/**
+ * Add an entry to a lowercased map without replacing an earlier file
+ */
+const addLower = (map: Map<string, AgentFile>, key: string, file: AgentFile): void => {
+  const lower = key.toLowerCase();
+  if (!map.has(lower)) map.set(lower, file);
+};
+
+/**
+ * Rank a file as the target of a reference to its directory (lower is better):
+ * files of the earlier profiles in pattern order, then the README
+ */
+const getDirectoryRank = (file: AgentFile, profiles: readonly InstructionProfile[]): number => {
+  const profileIndex = profiles.findIndex((profile) => isProfileFile(file.path, profile));
+  if (profileIndex >= 0) {
+    return profileIndex * 100 + getProfilePatternIndex(file.path, profiles[profileIndex]);
+  }
+  return README.test(file.name) ? profiles.length * 100 : Infinity;
+};
+
+/**
+ * Build the resolution index for a set of files
+ * Directory references prefer the files of the given profiles (usually the parse mode's)
+ */
+export const buildResolutionIndex = (
+  files: AgentFile[],
+  preferred: readonly InstructionProfile[] = []
+): ResolutionIndex => {
+  const index: ResolutionIndex = {
+    paths: new Map(),
+    stems: new Map(),
+    directories: new Map(),
+    lowerPaths: new Map(),
+    lowerStems: new Map(),
+    lowerDirectories: new Map(),
+  };
+  const directoryRanks = new Map<string, number>();
+  const profiles = [...preferred, ...PROFILES.filter((profile) => !preferred.includes(profile))];
+
+  for (const file of files) {
+    index.paths.set(file.path, file);
+    addLower(index.lowerPaths, file.path, file);
+
+    if (DOCUMENT_EXTENSION.test(file.path)) {
+      const stem = file.path.replace(DOCUMENT_EXTENSION, "");
+      if (!index.stems.has(stem)) index.stems.set(stem, file);
+      addLower(index.lowerStems, stem, file);
+    }
+
+    // Files directly inside a directory compete to represent it
+    const rank = getDirectoryRank(file, profiles);
+    if (rank === Infinity) continue;
+    const directory = file.path.substring(0, Math.max(file.path.lastIndexOf("/"), 0));
+    if (rank < (directoryRanks.get(directory) ?? Infinity)) {
+      directoryRanks.set(directory, rank);
+      index.directories.set(directory, file);
+    }
+  }
+
+  // Lowercased directories take the best file among directories differing only in case
+  const byLowerDirectory = Array.from(index.directories).sort(
+    ([a], [b]) => directoryRanks.get(a)! - directoryRanks.get(b)!
+  );
+  for (const [directory, file] of byLowerDirectory) {
+    addLower(index.lowerDirectories, directory, file);
+  }
+
+  return index;
+};
+
+/**
+ * Find the file a resolved reference path points at
+ * Tries the path, the path plus a document extension, then the path as a directory,
+ * first with exact case and then ignoring case
+ */
+export const resolveReference = (
+  index: ResolutionIndex,
+  resolvedPath: string
+): Resolution | undefined => {
+  const isDirectoryPath = resolvedPath === "" || resolvedPath.endsWith("/");
+  const path = resolvedPath.replace(/\/+$/, "");
+  const lower = path.toLowerCase();
+
+  const lookups: [ResolutionMatch, Map<string, AgentFile>, Map<string, AgentFile>][] = [
+    ["exact", index.paths, index.lowerPaths],
+    ["extension", index.stems, index.lowerStems],
+    ["directory", index.directories, index.lowerDirectories],
+  ];
+  // A trailing slash always means a directory
+  const candidates = isDirectoryPath ? lookups.slice(2) : lookups;
+
+  for (const caseMismatch of [false, true]) {
+    for (const [match, exact, lowered] of candidates) {
+      const file = caseMismatch ? lowered.get(lower) : exact.get(path);
+      if (file) return { file, match, caseMismatch };
+    }
+  }
+
+  return undefined;
+};
@@ -0,0 +1,103 @@
+/**
+ * Scan client
+ * Starts a cancellable scan in a Web Worker when the directory handle can be
+ * transferred to one, and on the main thread otherwise
+ */
+
+import { ScanDirectoryHandle, ScanProgress, ScanResult } from "../types";
+import { scanAndLoadDirectory } from "./directoryScanner";
+import { isNativeDirectoryHandle } from "./directoryAdapters";
+
+/**
+ * Messages sent to the scan worker
+ */
+export type ScanWorkerRequest =
+  | { type: "start"; dirHandle: FileSystemDirectoryHandle }
+  | { type: "cancel" };
+
+/**
+ * Messages sent back by the scan worker
+ */
+export type ScanWorkerResponse =
+  | { type: "progress"; progress: ScanProgress }
+  | { type: "done"; result: ScanResult }
+  | { type: "error"; message: string };
+
+/**
+ * A running scan
+ */
+export interface ScanTask {
+  /** Resolves with the (possibly partial) result once the scan stops */
+  result: Promise<ScanResult>;
+  /** Stops the scan; the result resolves with the files found so far */
+  cancel: () => void;
+}
+
+/**
+ * Run the scan in a dedicated worker
+ * Only native handles are structured-cloneable, so adapters cannot use this path
+ */
+const startWorkerScan = (
+  dirHandle: FileSystemDirectoryHandle,
+  onProgress: (progress: ScanProgress) => void
+): ScanTask => {
+  const worker = new Worker(new URL("./scanWorker.ts", import.meta.url), {
+    type: "module",
+  });
+
+  const result = new Promise<ScanResult>((resolve, reject) => {
+    worker.addEventListener("message", (event: MessageEvent<ScanWorkerResponse>) => {
+      const response = event.data;
+      if (response.type === "progress") {
+        onProgress(response.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (response.type === "done") {
+        resolve(response.result);
+      } else {
+        reject(new Error(response.message));
+      }
+    });
+
+    worker.addEventListener("error", (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Scan worker failed"));
+    });
+  });
+
+  worker.postMessage({ type: "start", dirHandle } satisfies ScanWorkerRequest);
+
+  return {
+    result,
+    cancel: () => worker.postMessage({ type: "cancel" } satisfies ScanWorkerRequest),
+  };
+};
+
+/**
+ * Run the scan on the main thread
+ */
+const startMainThreadScan = (
+  dirHandle: ScanDirectoryHandle,
+  onProgress: (progress: ScanProgress) => void
+): ScanTask => {
+  const controller = new AbortController();
+  return {
+    result: scanAndLoadDirectory(dirHandle, { signal: controller.signal, onProgress }),
+    cancel: () => controller.abort(),
+  };
+};
+
+/**
+ * Start scanning a directory, reporting progress as it goes
+ */
+export const startScan = (
+  dirHandle: ScanDirectoryHandle,
+  onProgress: (progress: ScanProgress) => void
+): ScanTask => {
+  if (typeof Worker !== "undefined" && isNativeDirectoryHandle(dirHandle)) {
+    return startWorkerScan(dirHandle, onProgress);
+  }
+  return startMainThreadScan(dirHandle, onProgress);
+};
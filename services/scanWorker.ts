@@ -0,0 +1,33 @@
+/**
+ * Scan worker
+ * Runs directory traversal and content loading off the main thread
+ */
+
+import { scanAndLoadDirectory } from "./directoryScanner";
+import type { ScanWorkerRequest, ScanWorkerResponse } from "./scanClient";
+
+let controller: AbortController | null = null;
+
+const post = (message: ScanWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.addEventListener("message", async (event: MessageEvent<ScanWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "cancel") {
+    controller?.abort();
+    return;
+  }
+
+  controller = new AbortController();
+  try {
+    const result = await scanAndLoadDirectory(request.dirHandle, {
+      signal: controller.signal,
+      onProgress: (progress) => post({ type: "progress", progress }),
+    });
+    post({ type: "done", result });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+});
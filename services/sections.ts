@@ -0,0 +1,85 @@
+/**
+ * Document sections
+ * Splits a markdown file at its headings so references can point at, and come from,
+ * one section of a long instruction file. Anchors follow GitHub's heading slugs, which
+ * is what #fragments in links are written against.
+ */
+
+import { toString } from "mdast-util-to-string";
+import { visit } from "unist-util-visit";
+import { DocumentSection } from "../types";
+import { SECTIONS } from "../constants";
+import { parseFrontmatter } from "./frontmatter";
+import { parseMarkdown } from "./referenceExtractor";
+
+/**
+ * Create a slug generator for one document
+ * Repeated headings get -1, -2, ... suffixes, in document order
+ */
+export const createSlugger = (): ((text: string) => string) => {
+  const seen = new Map<string, number>();
+
+  return (text: string): string => {
+    const base = text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, "")
+      .replace(/ /g, "-");
+
+    let slug = base;
+    let count = seen.get(base) ?? 0;
+    while (seen.has(slug)) slug = `${base}-${++count}`;
+    seen.set(base, count);
+    seen.set(slug, 0);
+    return slug;
+  };
+};
+
+/**
+ * Extract the sections of a document, in order
+ * Headings deeper than the section depth still count for slug numbering
+ */
+export const extractSections = (
+  content: string,
+  maxDepth: number = SECTIONS.MAX_HEADING_DEPTH
+): DocumentSection[] => {
+  // Frontmatter would otherwise read as a setext heading
+  const bodyOffset = parseFrontmatter(content)?.bodyOffset ?? 0;
+  const slug = createSlugger();
+  const sections: DocumentSection[] = [];
+
+  visit(parseMarkdown(content.slice(bodyOffset)), "heading", (node) => {
+    const text = toString(node);
+    const section: DocumentSection = {
+      text,
+      slug: slug(text),
+      depth: node.depth,
+      line: content.slice(0, bodyOffset).split("\n").length - 1 + (node.position?.start.line ?? 1),
+      offset: bodyOffset + (node.position?.start.offset ?? 0),
+    };
+    if (node.depth <= maxDepth) sections.push(section);
+  });
+
+  return sections;
+};
+
+/**
+ * Find the section a character offset falls in (undefined before the first heading)
+ */
+export const findSectionAt = (
+  sections: DocumentSection[],
+  offset: number
+): DocumentSection | undefined => sections.filter((section) => section.offset <= offset).pop();
+
+/**
+ * Find the section an anchor points at, by slug or, failing that, by heading text
+ */
+export const findSectionByAnchor = (
+  sections: DocumentSection[],
+  anchor: string
+): DocumentSection | undefined => {
+  const normalized = anchor.toLowerCase();
+  return (
+    sections.find((section) => section.slug === normalized) ??
+    sections.find((section) => section.text.toLowerCase() === normalized)
+  );
+};
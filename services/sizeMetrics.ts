@@ -0,0 +1,73 @@
+/**
+ * Size and token budget service
+ * Measures each document and the closure of its @ imports, up to the depth the parse
+ * mode expands them, which is what an agent adds to its context when it loads the file
+ */
+
+import { AgentFile, BudgetStatus, BudgetThresholds, GraphNode, SizeMetrics } from "../types";
+import { BUDGET, ParseMode, getProfile } from "../constants";
+import { buildImportMap, findImportChains } from "./fileParser";
+
+/**
+ * Estimate the token count of a text from its length
+ */
+export const estimateTokens = (chars: number): number =>
+  Math.ceil(chars / BUDGET.CHARS_PER_TOKEN);
+
+/**
+ * Count characters, words and estimated tokens of a text
+ */
+const measureText = (content: string): { chars: number; words: number; tokens: number } => {
+  const chars = content.length;
+  const words = content.split(/\s+/).filter(Boolean).length;
+  return { chars, words, tokens: estimateTokens(chars) };
+};
+
+/**
+ * Compute size metrics for every document node in the graph
+ */
+export const computeSizeMetrics = (
+  files: AgentFile[],
+  nodes: GraphNode[],
+  parseTarget: ParseMode
+): Map<string, SizeMetrics> => {
+  const { maxImportDepth } = getProfile(parseTarget);
+  const imports = buildImportMap(files);
+  const sizes = new Map(files.map((file) => [file.path, measureText(file.content ?? "")]));
+  const metrics = new Map<string, SizeMetrics>();
+
+  for (const node of nodes) {
+    const own = sizes.get(node.id);
+    if (node.type !== "document" || !own) continue;
+
+    // The files the effective context would load; cycles and diamonds count each file once
+    const closure = Array.from(findImportChains(imports, [node.id], maxImportDepth))
+      .filter(([, chain]) => chain.length - 1 <= maxImportDepth)
+      .map(([path]) => path);
+
+    const totals = { chars: 0, words: 0 };
+    for (const path of closure) {
+      totals.chars += sizes.get(path)?.chars ?? 0;
+      totals.words += sizes.get(path)?.words ?? 0;
+    }
+
+    metrics.set(node.id, {
+      ...own,
+      totalChars: totals.chars,
+      totalWords: totals.words,
+      totalTokens: estimateTokens(totals.chars),
+      importedFiles: closure.length - 1,
+    });
+  }
+
+  return metrics;
+};
+
+/**
+ * Classify a token count against budget thresholds
+ */
+export const getBudgetStatus = (tokens: number, thresholds: BudgetThresholds): BudgetStatus => {
+  if (tokens > thresholds.maxTokens) return "over";
+  if (tokens > thresholds.warnTokens) return "warn";
+  return "ok";
+};
@@ -0,0 +1,144 @@
+/**
+ * Recent workspace storage
+ * Persists File System Access directory handles in IndexedDB so a workspace
+ * can be reopened after a reload without walking the OS picker again
+ */
+
+import { ParseMode } from "../constants";
+
+const DB_NAME = "agentlink";
+const DB_VERSION = 1;
+const STORE_NAME = "workspaces";
+const MAX_RECENT_WORKSPACES = 8;
+
+/**
+ * A workspace remembered across sessions
+ */
+export interface WorkspaceRecord {
+  /** Unique identifier */
+  id: string;
+  /** Folder name shown in the recent list */
+  name: string;
+  /** Persisted directory handle (structured-cloneable) */
+  handle: FileSystemDirectoryHandle;
+  /** Timestamp of the last time the workspace was opened */
+  lastOpened: number;
+  /** Parse mode in use when the workspace was last viewed */
+  parseTarget?: ParseMode;
+  /** Path of the file selected when the workspace was last viewed */
+  selectedPath?: string;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Open the database, creating the object store on first use
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+  };
+  return promisifyRequest(request);
+};
+
+/**
+ * Run a callback against the workspace store inside a transaction
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await promisifyRequest(
+      callback(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    );
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * List remembered workspaces, most recently opened first
+ */
+export const listRecentWorkspaces = async (): Promise<WorkspaceRecord[]> => {
+  const records = await withStore<WorkspaceRecord[]>("readonly", (store) => store.getAll());
+  return records.sort((a, b) => b.lastOpened - a.lastOpened);
+};
+
+/**
+ * Remember a directory handle as the most recent workspace
+ * Reuses the existing record when the same folder was opened before, keeping its view state
+ */
+export const saveWorkspace = async (
+  handle: FileSystemDirectoryHandle
+): Promise<WorkspaceRecord> => {
+  const records = await listRecentWorkspaces();
+
+  let existing: WorkspaceRecord | undefined;
+  for (const record of records) {
+    if (await record.handle.isSameEntry(handle)) {
+      existing = record;
+      break;
+    }
+  }
+
+  const record: WorkspaceRecord = {
+    ...existing,
+    id: existing?.id ?? crypto.randomUUID(),
+    name: handle.name,
+    handle,
+    lastOpened: Date.now(),
+  };
+  await withStore("readwrite", (store) => store.put(record));
+
+  // Trim the oldest entries beyond the limit
+  const stale = [record, ...records.filter((r) => r.id !== record.id)].slice(
+    MAX_RECENT_WORKSPACES
+  );
+  for (const old of stale) {
+    await removeWorkspace(old.id);
+  }
+
+  return record;
+};
+
+/**
+ * Update the remembered view state (parse mode, selected file) of a workspace
+ */
+export const updateWorkspaceState = async (
+  id: string,
+  state: Pick<WorkspaceRecord, "parseTarget" | "selectedPath">
+): Promise<void> => {
+  const record = await withStore<WorkspaceRecord | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  if (!record) return;
+  await withStore("readwrite", (store) => store.put({ ...record, ...state }));
+};
+
+/**
+ * Forget a workspace
+ */
+export const removeWorkspace = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+};
+
+/**
+ * Ensure read permission for a persisted handle
+ * Must be called from a user gesture when permission has to be requested again
+ */
+export const ensureReadPermission = async (
+  handle: FileSystemDirectoryHandle
+): Promise<boolean> => {
+  if ((await handle.queryPermission({ mode: "read" })) === "granted") return true;
+  return (await handle.requestPermission({ mode: "read" })) === "granted";
+};
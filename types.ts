@@ -1,7 +1,8 @@
 import * as d3 from "d3";
 
 // Re-export File System API types
-import "./types/fileSystem";
+import type { ScanFileHandle } from "./types/fileSystem";
+export type { ScanDirectoryHandle, ScanFileHandle } from "./types/fileSystem";
 
 /**
  * Represents a markdown file found in the repository
@@ -13,17 +14,81 @@ export interface AgentFile {
   name: string;
   /** File content (loaded lazily) */
   content?: string;
+  /** Fields of the leading YAML frontmatter block, if the file has one */
+  frontmatter?: FrontmatterData;
+  /** Last modification time of the loaded content (ms since epoch) */
+  lastModified?: number;
   /** Parent directory path */
   directory: string;
-  /** File System Access API handle for lazy loading */
-  fileHandle?: FileSystemFileHandle;
+  /** File handle for lazy loading (File System Access API or an adapter) */
+  fileHandle?: ScanFileHandle;
+}
+
+/**
+ * A frontmatter value as written: a scalar, or the items of a list
+ */
+export type FrontmatterValue = string | string[];
+
+/**
+ * Frontmatter fields by key (e.g., name, description, owner, tools, globs)
+ */
+export type FrontmatterData = Record<string, FrontmatterValue>;
+
+/**
+ * Counters reported while a scan is running
+ */
+export interface ScanProgress {
+  /** Directories whose entries have been read */
+  directoriesVisited: number;
+  /** Markdown files found that pass the ignore rules */
+  markdownFilesFound: number;
+  /** Bytes of markdown content read so far */
+  bytesRead: number;
+}
+
+/**
+ * Outcome of scanning and loading a directory
+ */
+export interface ScanResult {
+  /** Files found, with content loaded */
+  files: AgentFile[];
+  /** True when the scan was cancelled and the files are partial */
+  cancelled: boolean;
+}
+
+/**
+ * What a referenced path turned out to be when checked against the file system
+ */
+export type PathKind = "file" | "directory" | "missing";
+
+/**
+ * Graph node type: a scanned markdown/instruction document, a heading section of a
+ * document split into sections, or a referenced path that is only checked for
+ * existence (a leaf node)
+ */
+export type GraphNodeType = "document" | "section" | "sourceFile" | "directory" | "missing";
+
+/**
+ * A heading of a document and the content below it, up to the next heading
+ */
+export interface DocumentSection {
+  /** Heading text */
+  text: string;
+  /** GitHub-style anchor (e.g., "## Unit Testing" -> "unit-testing") */
+  slug: string;
+  /** Heading level (1-6) */
+  depth: number;
+  /** 1-based line of the heading */
+  line: number;
+  /** Character offset of the heading in the file */
+  offset: number;
 }
 
 /**
  * Graph node representing a file in the visualization
  */
 export interface GraphNode extends d3.SimulationNodeDatum {
-  /** Unique identifier (file path) */
+  /** Unique identifier (file path, plus "#slug" for sections) */
   id: string;
   /** Display name shown in the graph */
   name: string;
@@ -35,16 +100,374 @@ export interface GraphNode extends d3.SimulationNodeDatum {
   val: number;
   /** Whether this is a root-level file */
   isRoot: boolean;
+  type: GraphNodeType;
+  /** The heading a section node stands for */
+  section?: DocumentSection;
 }
 
 /**
- * Graph link representing a reference between files
+ * One reference from the source file behind a graph link
+ */
+export interface LinkOccurrence {
+  kind: ReferenceKind;
+  /** Reference as written (e.g., "`@docs/setup.md`") */
+  raw: string;
+  /** 1-based line of the reference in the source file */
+  line: number;
+  /** 1-based column of the reference in the source file */
+  column: number;
+  /** Resolved only by ignoring case (e.g., @Docs/Setup.md for docs/setup.md) */
+  caseMismatch?: boolean;
+}
+
+/**
+ * Graph link representing all references from one file to another
  */
 export interface GraphLink extends d3.SimulationLinkDatum<GraphNode> {
   /** Source node ID or reference */
   source: string | GraphNode;
   /** Target node ID or reference */
   target: string | GraphNode;
+  /** Heading anchors the source points at in the target */
+  anchors: string[];
+  /** Distinct reference kinds, in order of first occurrence */
+  kinds: ReferenceKind[];
+  /** Number of references (occurrences.length) */
+  count: number;
+  /** Every reference behind this link, in source order */
+  occurrences: LinkOccurrence[];
+  /** Set on implicit directory-hierarchy links, which have no references behind them */
+  inheritance?: InheritanceKind;
+  /** In a combined mode, whether the link connects files of different ecosystems */
+  bridge?: boolean;
+  /** Structural link from a file split into sections to one of its sections */
+  contains?: boolean;
+}
+
+/**
+ * Implicit relation between a nested instruction file and the one in its enclosing directory
+ * - inherits: both are loaded, the nested file adds to the outer one (CLAUDE.md)
+ * - overrides: only the nearest file is loaded, the nested one replaces the outer (AGENTS.md)
+ */
+export type InheritanceKind = "inherits" | "overrides";
+
+/**
+ * Syntax a reference was written in
+ */
+export type ReferenceKind = "wiki" | "atImport" | "backtickPath" | "markdownLink" | "custom";
+
+/**
+ * A reference found in markdown content
+ */
+export interface MarkdownReference {
+  kind: ReferenceKind;
+  /** Reference as written, including its syntax (e.g., "`@docs/setup.md`") */
+  raw: string;
+  /** Path part of the reference without any #anchor (e.g., "@docs/setup.md") */
+  link: string;
+  /** Heading anchor after "#", if any (e.g., "local-env") */
+  anchor?: string;
+  /** 0-based character offset of the raw text */
+  offset: number;
+  /** 1-based line of the raw text */
+  line: number;
+  /** 1-based column of the raw text */
+  column: number;
+  /** Text of the nearest heading above the reference */
+  heading?: string;
+}
+
+/**
+ * A reference that could not be resolved to a scanned file
+ */
+export interface UnresolvedReference {
+  /** Path of the file containing the reference */
+  source: string;
+  /** Reference text as written (e.g., "@docs/setup.md") */
+  reference: string;
+  kind: ReferenceKind;
+  /** Repository-relative path the reference resolved to */
+  resolvedPath: string;
+  /** 1-based line of the reference in the source file */
+  line: number;
+  /** 1-based column of the reference in the source file */
+  column: number;
+  /** Text of the nearest heading above the reference */
+  heading?: string;
+}
+
+/**
+ * Where an external link points
+ * - url: an http(s) URL
+ * - home: a path in the user's home directory (~/...), outside the repository
+ */
+export type ExternalLinkKind = "url" | "home";
+
+/**
+ * An http(s) link or home-relative path found in a file, kept out of the graph
+ */
+export interface ExternalLink {
+  /** Path of the file containing the link */
+  source: string;
+  /** http(s) URL, or a home-relative path such as ~/.claude/notes.md */
+  url: string;
+  kind: ExternalLinkKind;
+  /** 1-based line of the link in the source file */
+  line: number;
+  /** 1-based column of the link in the source file */
+  column: number;
+}
+
+/**
+ * Result of building the reference graph
+ */
+export interface GraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  /** References whose target markdown file does not exist */
+  unresolved: UnresolvedReference[];
+  /** External http(s) links and home-relative paths, in file order */
+  externalLinks: ExternalLink[];
+  /** References that resolved with different letter case */
+  caseMismatches: CaseMismatch[];
+}
+
+/**
+ * Rule identifiers reported by the reference checker
+ */
+export type CheckRule =
+  | "unresolved-reference"
+  | "orphaned-file"
+  | "missing-root"
+  | "ecosystem-drift"
+  | "case-mismatch";
+
+/**
+ * A reference that only resolves when case is ignored, which breaks on case-sensitive file systems
+ */
+export interface CaseMismatch {
+  /** Path of the file containing the reference */
+  source: string;
+  /** Reference text as written */
+  reference: string;
+  /** Repository-relative path the reference resolved to */
+  resolvedPath: string;
+  /** Path of the file it matched */
+  target: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A single problem found by the reference checker
+ */
+export interface CheckIssue {
+  rule: CheckRule;
+  /** Human-readable description */
+  message: string;
+  /** Repository-relative path of the offending file */
+  file: string;
+  /** 1-based line, when the issue points at a reference */
+  line?: number;
+  /** 1-based column, when the issue points at a reference */
+  column?: number;
+}
+
+/**
+ * How serious a lint problem is
+ */
+export type LintSeverity = "error" | "warning" | "info";
+
+/**
+ * A single problem found by a lint rule
+ */
+export interface LintProblem {
+  /** ID of the rule that reported it */
+  rule: string;
+  severity: LintSeverity;
+  /** Human-readable description */
+  message: string;
+  /** Repository-relative path of the offending file */
+  file: string;
+  /** 1-based line, when the problem points at a location */
+  line?: number;
+  /** 1-based column, when the problem points at a location */
+  column?: number;
+}
+
+/**
+ * A cycle of references between documents
+ */
+export interface ReferenceCycle {
+  /** Every file of the strongly connected component, sorted */
+  members: string[];
+  /** One closed path through the component, starting and ending at the same file */
+  path: string[];
+}
+
+/**
+ * Why a file is part of a directory's effective context
+ * - ancestor: loaded because it sits in the directory or one enclosing it
+ * - import: pulled in by an @ import chain from a loaded file
+ * - depthCutoff: imported, but beyond the import depth the agent expands (not loaded)
+ */
+export type ContextReason = "ancestor" | "import" | "depthCutoff";
+
+/**
+ * One instruction file in an effective context, in load order
+ */
+export interface ContextEntry {
+  file: AgentFile;
+  reason: ContextReason;
+  /** Files that led to this one through imports, starting at an ancestor file */
+  chain: string[];
+  /** Import depth (0 for ancestor files) */
+  depth: number;
+}
+
+/**
+ * What an agent loads when working in a directory
+ */
+export interface EffectiveContext {
+  /** Repository-relative working directory ("" for the root) */
+  directory: string;
+  /** Loaded files in load order, followed by imports skipped at the depth cutoff */
+  entries: ContextEntry[];
+  /** Loaded files concatenated, each file once, repeated list items dropped */
+  document: string;
+  /** Number of list items dropped from the document because they were already included */
+  duplicatesRemoved: number;
+}
+
+/**
+ * Size of a document on its own and together with everything it imports
+ */
+export interface SizeMetrics {
+  chars: number;
+  words: number;
+  /** Estimated tokens (characters / BUDGET.CHARS_PER_TOKEN) */
+  tokens: number;
+  /** Totals over the file and the @ imports the parse mode expands, each file counted once */
+  totalChars: number;
+  totalWords: number;
+  totalTokens: number;
+  /** Files pulled in through imports, excluding the file itself */
+  importedFiles: number;
+}
+
+/**
+ * Token thresholds for a file's total context size
+ */
+export interface BudgetThresholds {
+  warnTokens: number;
+  maxTokens: number;
+}
+
+export type BudgetStatus = "ok" | "warn" | "over";
+
+/**
+ * Structural measures of a node in the reference graph
+ * Sections count as their file; hierarchy and section links are left out
+ */
+export interface GraphMetrics {
+  /** Files that reference this one */
+  inDegree: number;
+  /** Files this one references */
+  outDegree: number;
+  /** Fewest references from a root file (0 for roots), undefined when unreachable */
+  depth?: number;
+  /** Whether any root file leads here */
+  reachable: boolean;
+  /** Share of shortest paths between other files that pass through this one (0-1) */
+  betweenness: number;
+  /** Files reachable from this one, transitively */
+  fanOut: number;
+}
+
+/**
+ * Graph metric usable as a node encoding
+ */
+export type GraphMetric = "inDegree" | "outDegree" | "depth" | "betweenness" | "fanOut";
+
+/**
+ * Measure that sets graph node sizes ("connections" is the link count)
+ */
+export type NodeSizeEncoding =
+  | "connections"
+  | "ownTokens"
+  | "totalTokens"
+  | Exclude<GraphMetric, "depth">;
+
+/**
+ * Measure that sets graph node colors ("fileType" is the profile coloring,
+ * "frontmatter:<field>" the value of a frontmatter field)
+ */
+export type NodeColorEncoding = "fileType" | "budget" | GraphMetric | `frontmatter:${string}`;
+
+/**
+ * How the instruction files of a combined mode have drifted apart in a directory
+ * - missingCounterpart: one ecosystem has files there and another has none
+ * - unlinked: every ecosystem has files there, but none references another's
+ */
+export type DriftKind = "missingCounterpart" | "unlinked";
+
+/**
+ * A directory whose ecosystems' instruction files have drifted apart
+ */
+export interface DirectoryDrift {
+  /** Repository-relative directory the files apply to ("" for the root) */
+  directory: string;
+  kind: DriftKind;
+  /** Instruction files of the combined mode in the directory */
+  files: AgentFile[];
+  /** Labels of the ecosystems without a file in the directory */
+  missing: string[];
+}
+
+/**
+ * Which side of an ecosystem comparison something exists on
+ */
+export type ComparisonPresence = "both" | "left" | "right";
+
+/**
+ * A directory with instruction files in only one of two compared ecosystems
+ */
+export interface MissingDirectory {
+  /** Repository-relative directory ("" for the root) */
+  directory: string;
+  /** Side whose ecosystem has files there */
+  presentIn: "left" | "right";
+  files: AgentFile[];
+}
+
+/**
+ * An @ import between aligned nodes that only one ecosystem's graph has
+ */
+export interface MissingImport {
+  /** Aligned IDs of the referencing and referenced nodes */
+  source: string;
+  target: string;
+  presentIn: "left" | "right";
+  /** File holding the import, on the side that has it */
+  file: AgentFile;
+  /** 1-based line of the first @ import behind the link */
+  line: number;
+}
+
+/**
+ * Two ecosystems' graphs with their nodes aligned by directory
+ * Instruction files become one node per directory (e.g., "packages/api/"), so a
+ * directory's CLAUDE.md and AGENTS.md share an ID; other documents keep their path
+ */
+export interface EcosystemComparison {
+  left: GraphData;
+  right: GraphData;
+  /** Presence of every aligned node ID */
+  nodePresence: Map<string, ComparisonPresence>;
+  /** Presence of every aligned link, by "source->target" */
+  linkPresence: Map<string, ComparisonPresence>;
+  missingDirectories: MissingDirectory[];
+  missingImports: MissingImport[];
 }
 
 /**
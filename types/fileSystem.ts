@@ -6,21 +6,61 @@
 declare global {
   interface Window {
     showDirectoryPicker: () => Promise<FileSystemDirectoryHandle>;
+    /** Chromium-only: observes changes to files and directories */
+    FileSystemObserver?: FileSystemObserverConstructor;
+  }
+
+  interface FileSystemChangeRecord {
+    type: "appeared" | "disappeared" | "modified" | "moved" | "unknown" | "errored";
+    relativePathComponents: string[];
+  }
+
+  interface FileSystemObserver {
+    observe(handle: FileSystemHandle, options?: { recursive?: boolean }): Promise<void>;
+    disconnect(): void;
+  }
+
+  interface FileSystemObserverConstructor {
+    new (callback: (records: FileSystemChangeRecord[]) => void): FileSystemObserver;
   }
 
   interface FileSystemDirectoryHandle {
-    values(): AsyncIterableIterator<FileSystemHandle>;
-    getFileHandle(name: string): Promise<FileSystemFileHandle>;
+    values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
   }
 
-  interface FileSystemFileHandle {
-    getFile(): Promise<File>;
+  interface FileSystemHandlePermissionDescriptor {
+    mode?: "read" | "readwrite";
   }
 
   interface FileSystemHandle {
-    kind: "file" | "directory";
-    name: string;
+    queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+    requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>;
+  }
+
+  interface DataTransferItem {
+    /** Chromium-only: returns a File System Access handle for dropped entries */
+    getAsFileSystemHandle?(): Promise<FileSystemFileHandle | FileSystemDirectoryHandle | null>;
   }
 }
 
-export {};
+/**
+ * Minimal file handle shape used by the scanner
+ * Satisfied by native FileSystemFileHandle and by non-browser adapters
+ */
+export interface ScanFileHandle {
+  readonly kind: "file";
+  readonly name: string;
+  getFile(): Promise<File>;
+}
+
+/**
+ * Minimal directory handle shape used by the scanner
+ * Satisfied by native FileSystemDirectoryHandle and by non-browser adapters
+ */
+export interface ScanDirectoryHandle {
+  readonly kind: "directory";
+  readonly name: string;
+  values(): AsyncIterable<ScanFileHandle | ScanDirectoryHandle>;
+  getFileHandle(name: string): Promise<ScanFileHandle>;
+  getDirectoryHandle(name: string): Promise<ScanDirectoryHandle>;
+}
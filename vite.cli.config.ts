@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the agentlink CLI as a Node ESM bundle that shares the app's services
+export default defineConfig({
+  build: {
+    ssr: 'cli/agentlink.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'agentlink.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});